@@ -0,0 +1,448 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, ScrollView, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ThemedView } from '@/components/themed-view';
+import { ThemedText } from '@/components/themed-text';
+import { api, isAuthError, toApiError } from '@/services/api-client';
+import {
+  EMPTY_FLOOR_PLAN,
+  loadFloorPlan,
+  MAX_COLUMNS,
+  nextFreeSpot,
+  resolveFloorPlan,
+  saveFloorPlan,
+  type FloorPlan,
+  type FloorTable,
+} from '@/services/floor-plan';
+import { approveAsManager } from '@/services/manager-approval';
+
+export default function FloorPlanScreen() {
+  const router = useRouter();
+  const [plan, setPlan] = useState<FloorPlan>(EMPTY_FLOOR_PLAN);
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [selectedTable, setSelectedTable] = useState<number | null>(null);
+  const [newSection, setNewSection] = useState('');
+  const [managerEmail, setManagerEmail] = useState('');
+  const [managerPassword, setManagerPassword] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { count } = await api.getTableCount();
+        const tableNumbers = Array.from({ length: count }, (_, i) => i + 1);
+        setPlan(resolveFloorPlan(await loadFloorPlan(), tableNumbers));
+      } catch (err: any) {
+        if (isAuthError(err)) return;
+        Alert.alert('Error', err?.message || 'Failed to fetch tables');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const section = plan.sections[sectionIndex];
+  const table = section?.tables.find((t) => t.tableNumber === selectedTable) ?? null;
+  // One spare row so tables can be moved below the last one
+  const rows = Math.max(0, ...(section?.tables.map((t) => t.row + 1) ?? [])) + 1;
+
+  const updateSection = (index: number, update: (tables: FloorTable[]) => FloorTable[]) =>
+    setPlan((prev) => ({
+      sections: prev.sections.map((s, i) => (i === index ? { ...s, tables: update(s.tables) } : s)),
+    }));
+
+  const updateTable = (changes: Partial<FloorTable>) =>
+    updateSection(sectionIndex, (tables) =>
+      tables.map((t) => (t.tableNumber === selectedTable ? { ...t, ...changes } : t))
+    );
+
+  // Tap a table to pick it, then an empty cell to put it there
+  const handleCellPress = (row: number, col: number, occupant: FloorTable | undefined) => {
+    if (occupant) {
+      setSelectedTable(occupant.tableNumber === selectedTable ? null : occupant.tableNumber);
+      return;
+    }
+    if (table) updateTable({ row, col });
+  };
+
+  const renameSection = (name: string) =>
+    setPlan((prev) => ({ sections: prev.sections.map((s, i) => (i === sectionIndex ? { ...s, name } : s)) }));
+
+  const addSection = () => {
+    const name = newSection.trim();
+    if (!name) return;
+    if (plan.sections.some((s) => s.name.toLowerCase() === name.toLowerCase())) {
+      Alert.alert('Section Exists', `There is already a section called ${name}.`);
+      return;
+    }
+    setPlan((prev) => ({ sections: [...prev.sections, { name, tables: [] }] }));
+    setSectionIndex(plan.sections.length);
+    setSelectedTable(null);
+    setNewSection('');
+  };
+
+  const moveToSection = (target: number) => {
+    if (!table || target === sectionIndex) return;
+    setPlan((prev) => ({
+      sections: prev.sections.map((s, i) => {
+        if (i === sectionIndex) return { ...s, tables: s.tables.filter((t) => t.tableNumber !== table.tableNumber) };
+        if (i === target) return { ...s, tables: [...s.tables, { ...table, ...nextFreeSpot(s.tables) }] };
+        return s;
+      }),
+    }));
+    setSelectedTable(null);
+  };
+
+  // Only empty sections can go; their tables must be moved out first
+  const removeSection = () => {
+    if (!section || section.tables.length > 0) return;
+    setPlan((prev) => ({ sections: prev.sections.filter((_, i) => i !== sectionIndex) }));
+    setSectionIndex(0);
+  };
+
+  const handleSave = async () => {
+    if (plan.sections.some((s) => !s.name.trim())) {
+      Alert.alert('Section Name', 'Every section needs a name.');
+      return;
+    }
+    if (!managerEmail || !managerPassword) {
+      Alert.alert('Manager Approval', 'Manager email and password are required to change the floor plan.');
+      return;
+    }
+    setSaving(true);
+    try {
+      if (!(await approveAsManager(managerEmail, managerPassword))) {
+        Alert.alert('Manager Approval', 'Only a manager can change the floor plan.');
+        return;
+      }
+      if (!(await saveFloorPlan(plan))) {
+        Alert.alert(
+          'Saved on This Device',
+          'The server does not store floor plans, so this plan only applies to this device. Set it up on each captain device.'
+        );
+      }
+      router.back();
+    } catch (err) {
+      Alert.alert('Error', toApiError(err).message || 'Failed to save the floor plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <ThemedView style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <ThemedText type="title" style={styles.title}>Floor Plan</ThemedText>
+        <ThemedText style={styles.hint}>
+          Tap a table, then an empty spot to move it. Tables are still billed under their number.
+        </ThemedText>
+
+        <View style={styles.chips}>
+          {plan.sections.map((s, i) => (
+            <TouchableOpacity
+              key={i}
+              style={[styles.chip, i === sectionIndex && styles.chipSelected]}
+              onPress={() => {
+                setSectionIndex(i);
+                setSelectedTable(null);
+              }}
+            >
+              <ThemedText style={[styles.chipText, i === sectionIndex && styles.chipTextSelected]}>
+                {s.name || 'Unnamed'} ({s.tables.length})
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.row}>
+          <TextInput
+            style={styles.input}
+            placeholder="New section, e.g. Terrace"
+            placeholderTextColor="#999"
+            value={newSection}
+            onChangeText={setNewSection}
+            onSubmitEditing={addSection}
+          />
+          <TouchableOpacity onPress={addSection}>
+            <ThemedText style={styles.linkText}>Add</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        {section && (
+          <>
+            <View style={styles.row}>
+              <TextInput
+                style={styles.input}
+                placeholder="Section name"
+                placeholderTextColor="#999"
+                value={section.name}
+                onChangeText={renameSection}
+              />
+              {section.tables.length === 0 && (
+                <TouchableOpacity onPress={removeSection}>
+                  <ThemedText style={styles.removeText}>Remove</ThemedText>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={styles.grid}>
+              {Array.from({ length: rows }, (_, row) => (
+                <View key={row} style={styles.gridRow}>
+                  {Array.from({ length: MAX_COLUMNS }, (_, col) => {
+                    const occupant = section.tables.find((t) => t.row === row && t.col === col);
+                    return (
+                      <TouchableOpacity
+                        key={col}
+                        style={[
+                          styles.cell,
+                          occupant && styles.cellTable,
+                          occupant?.tableNumber === selectedTable && styles.cellSelected,
+                        ]}
+                        onPress={() => handleCellPress(row, col, occupant)}
+                      >
+                        {occupant && (
+                          <>
+                            <ThemedText style={styles.cellLabel} numberOfLines={1}>{occupant.label}</ThemedText>
+                            <ThemedText style={styles.cellHint}>{occupant.capacity} seats</ThemedText>
+                          </>
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        {table && (
+          <View style={styles.tablePanel}>
+            <ThemedText type="defaultSemiBold">Table {table.tableNumber}</ThemedText>
+            <View style={styles.row}>
+              <ThemedText style={styles.fieldLabel}>Label</ThemedText>
+              <TextInput
+                style={styles.input}
+                placeholder={String(table.tableNumber)}
+                placeholderTextColor="#999"
+                value={table.label}
+                onChangeText={(label) => updateTable({ label })}
+                maxLength={12}
+              />
+            </View>
+            <View style={styles.row}>
+              <ThemedText style={styles.fieldLabel}>Seats</ThemedText>
+              <TextInput
+                style={styles.input}
+                keyboardType="number-pad"
+                value={table.capacity ? String(table.capacity) : ''}
+                onChangeText={(value) => updateTable({ capacity: parseInt(value, 10) || 0 })}
+                maxLength={2}
+              />
+            </View>
+            {plan.sections.length > 1 && (
+              <>
+                <ThemedText style={styles.fieldLabel}>Move to section</ThemedText>
+                <View style={styles.chips}>
+                  {plan.sections.map((s, i) =>
+                    i === sectionIndex ? null : (
+                      <TouchableOpacity key={i} style={styles.chip} onPress={() => moveToSection(i)}>
+                        <ThemedText style={styles.chipText}>{s.name || 'Unnamed'}</ThemedText>
+                      </TouchableOpacity>
+                    )
+                  )}
+                </View>
+              </>
+            )}
+          </View>
+        )}
+
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>Manager approval</ThemedText>
+        <TextInput
+          style={[styles.input, styles.stackedInput]}
+          placeholder="Manager email"
+          placeholderTextColor="#999"
+          value={managerEmail}
+          onChangeText={setManagerEmail}
+          autoCapitalize="none"
+          keyboardType="email-address"
+        />
+        <TextInput
+          style={[styles.input, styles.stackedInput]}
+          placeholder="Manager password"
+          placeholderTextColor="#999"
+          value={managerPassword}
+          onChangeText={setManagerPassword}
+          secureTextEntry
+        />
+      </ScrollView>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.button, styles.cancel]} onPress={() => router.back()} disabled={saving}>
+          <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.save]} onPress={handleSave} disabled={saving}>
+          {saving ? <ActivityIndicator color="#fff" /> : <ThemedText style={styles.buttonText}>Save</ThemedText>}
+        </TouchableOpacity>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    paddingTop: 56,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    paddingBottom: 16,
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  input: {
+    flex: 1,
+    height: 42,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    color: '#000',
+    backgroundColor: '#fff',
+  },
+  stackedInput: {
+    flex: 0,
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    width: 60,
+    fontWeight: '600',
+  },
+  removeText: {
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  linkText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  grid: {
+    gap: 6,
+    marginBottom: 12,
+  },
+  gridRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  cell: {
+    flex: 1,
+    aspectRatio: 1,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#ccc',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cellTable: {
+    backgroundColor: '#E5E5EA',
+    borderStyle: 'solid',
+    borderColor: '#E5E5EA',
+  },
+  cellSelected: {
+    borderColor: '#007AFF',
+    borderWidth: 2,
+  },
+  cellLabel: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  cellHint: {
+    fontSize: 10,
+    lineHeight: 12,
+    color: '#8E8E93',
+  },
+  tablePanel: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    marginBottom: 12,
+    gap: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  cancel: {
+    backgroundColor: '#8E8E93',
+  },
+  save: {
+    backgroundColor: '#007AFF',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ThemedView } from '@/components/themed-view';
+import { ThemedText } from '@/components/themed-text';
+import { createEscPos } from '@/services/escpos';
+import {
+  loadPrinterAddress,
+  parsePrinterAddress,
+  savePrinterAddress,
+  sendToPrinter,
+  type PrinterRole,
+} from '@/services/printer';
+
+const PRINTERS: { role: PrinterRole; label: string; hint: string }[] = [
+  { role: 'bill', label: 'Bill printer', hint: 'Customer bills from the bill preview' },
+  { role: 'kitchen', label: 'Kitchen printer', hint: 'KOTs for the main kitchen; other stations are set up under Kitchen Stations. Leave empty if the kitchen prints them.' },
+];
+
+const testPage = (label: string) =>
+  createEscPos().align('center').bold(true).line(label.toUpperCase()).bold(false).line('Test print OK').feed(3).cut().bytes();
+
+export default function PrintersScreen() {
+  const router = useRouter();
+  const [addresses, setAddresses] = useState<Record<PrinterRole, string>>({ bill: '', kitchen: '' });
+  const [busy, setBusy] = useState<PrinterRole | 'save' | null>(null);
+
+  useEffect(() => {
+    Promise.all([loadPrinterAddress('bill'), loadPrinterAddress('kitchen')])
+      .then(([bill, kitchen]) => setAddresses({ bill: bill || '', kitchen: kitchen || '' }))
+      .catch((err) => console.warn('Failed to load printer addresses:', err));
+  }, []);
+
+  const invalidRole = PRINTERS.find(({ role }) => addresses[role].trim() && !parsePrinterAddress(addresses[role]));
+
+  const handleTest = async (role: PrinterRole, label: string) => {
+    const address = parsePrinterAddress(addresses[role]);
+    if (!address) {
+      Alert.alert('Printer Address', 'Enter the printer IP address, for example 192.168.1.50 or 192.168.1.50:9100.');
+      return;
+    }
+    setBusy(role);
+    try {
+      await sendToPrinter(address, testPage(label));
+      Alert.alert('Printed', `A test page was sent to the ${label.toLowerCase()}.`);
+    } catch (err: any) {
+      Alert.alert('Print Failed', err?.message || 'Unable to print.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (invalidRole) {
+      Alert.alert('Printer Address', `The ${invalidRole.label.toLowerCase()} address is not valid.`);
+      return;
+    }
+    setBusy('save');
+    try {
+      await savePrinterAddress(addresses.bill, 'bill');
+      await savePrinterAddress(addresses.kitchen, 'kitchen');
+      router.back();
+    } catch (err: any) {
+      Alert.alert('Error', err?.message || 'Failed to save printers');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.card}>
+        <ThemedText type="title" style={styles.title}>Printers</ThemedText>
+        {PRINTERS.map(({ role, label, hint }) => (
+          <View key={role} style={styles.section}>
+            <ThemedText style={styles.label}>{label}</ThemedText>
+            <ThemedText style={styles.hint}>{hint}</ThemedText>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.input}
+                placeholder="192.168.1.50:9100"
+                placeholderTextColor="#999"
+                value={addresses[role]}
+                onChangeText={(value) => setAddresses((prev) => ({ ...prev, [role]: value }))}
+                autoCapitalize="none"
+                keyboardType="numbers-and-punctuation"
+              />
+              <TouchableOpacity
+                style={[styles.testButton, busy !== null && styles.disabled]}
+                onPress={() => handleTest(role, label)}
+                disabled={busy !== null}
+              >
+                {busy === role ? (
+                  <ActivityIndicator color="#007AFF" />
+                ) : (
+                  <ThemedText style={styles.testText}>Test</ThemedText>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.button, styles.cancel]} onPress={() => router.back()} disabled={busy !== null}>
+            <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, styles.save]} onPress={handleSave} disabled={busy !== null}>
+            {busy === 'save' ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <ThemedText style={styles.buttonText}>Save</ThemedText>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    justifyContent: 'center',
+  },
+  card: {
+    padding: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginBottom: 6,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    height: 42,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    color: '#000',
+    backgroundColor: '#fff',
+  },
+  testButton: {
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    justifyContent: 'center',
+  },
+  testText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  cancel: {
+    backgroundColor: '#8E8E93',
+  },
+  save: {
+    backgroundColor: '#007AFF',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, ScrollView, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ThemedView } from '@/components/themed-view';
+import { ThemedText } from '@/components/themed-text';
+import { api, isAuthError } from '@/services/api-client';
+import type { Category } from '@/services/api-types';
+import { parsePrinterAddress } from '@/services/printer';
+import {
+  DEFAULT_STATION,
+  EMPTY_STATION_CONFIG,
+  getCategoryStation,
+  loadStationConfig,
+  saveStationConfig,
+  type StationConfig,
+} from '@/services/stations';
+
+export default function StationsScreen() {
+  const router = useRouter();
+  const [config, setConfig] = useState<StationConfig>(EMPTY_STATION_CONFIG);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [newStation, setNewStation] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setConfig(await loadStationConfig());
+        setCategories(await api.getCategories(['active']));
+      } catch (err: any) {
+        if (isAuthError(err)) return;
+        Alert.alert('Error', err?.message || 'Failed to fetch categories');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const setPrinter = (name: string, printerAddress: string) =>
+    setConfig((prev) => ({
+      ...prev,
+      stations: prev.stations.map((s) => (s.name === name ? { ...s, printerAddress } : s)),
+    }));
+
+  const addStation = () => {
+    const name = newStation.trim();
+    if (!name) return;
+    if (config.stations.some((s) => s.name.toLowerCase() === name.toLowerCase())) {
+      Alert.alert('Station Exists', `There is already a station called ${name}.`);
+      return;
+    }
+    setConfig((prev) => ({ ...prev, stations: [...prev.stations, { name, printerAddress: '' }] }));
+    setNewStation('');
+  };
+
+  // Its categories go back to the main kitchen
+  const removeStation = (name: string) =>
+    setConfig((prev) => ({
+      stations: prev.stations.filter((s) => s.name !== name),
+      categoryStations: Object.fromEntries(Object.entries(prev.categoryStations).filter(([, station]) => station !== name)),
+    }));
+
+  const assign = (categoryId: string, station: string) =>
+    setConfig((prev) => {
+      const { [categoryId]: _previous, ...rest } = prev.categoryStations;
+      return { ...prev, categoryStations: station === DEFAULT_STATION ? rest : { ...rest, [categoryId]: station } };
+    });
+
+  const handleSave = async () => {
+    const invalid = config.stations.find((s) => s.printerAddress.trim() && !parsePrinterAddress(s.printerAddress));
+    if (invalid) {
+      Alert.alert('Printer Address', `The printer address for ${invalid.name} is not valid.`);
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveStationConfig(config);
+      router.back();
+    } catch (err: any) {
+      Alert.alert('Error', err?.message || 'Failed to save stations');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <ThemedView style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText type="title" style={styles.title}>Kitchen Stations</ThemedText>
+        <ThemedText style={styles.hint}>
+          Each KOT is split into one ticket per station. Categories not assigned below go to the {DEFAULT_STATION}.
+        </ThemedText>
+
+        {config.stations.map((station) => (
+          <View key={station.name} style={styles.stationRow}>
+            <ThemedText style={styles.stationName}>{station.name}</ThemedText>
+            <TextInput
+              style={styles.input}
+              placeholder="Printer IP (optional)"
+              placeholderTextColor="#999"
+              value={station.printerAddress}
+              onChangeText={(value) => setPrinter(station.name, value)}
+              autoCapitalize="none"
+              keyboardType="numbers-and-punctuation"
+            />
+            {station.name !== DEFAULT_STATION && (
+              <TouchableOpacity onPress={() => removeStation(station.name)}>
+                <ThemedText style={styles.removeText}>Remove</ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+        <View style={styles.stationRow}>
+          <TextInput
+            style={styles.input}
+            placeholder="New station, e.g. Bar"
+            placeholderTextColor="#999"
+            value={newStation}
+            onChangeText={setNewStation}
+            onSubmitEditing={addStation}
+          />
+          <TouchableOpacity onPress={addStation}>
+            <ThemedText style={styles.linkText}>Add</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>Categories</ThemedText>
+        {categories.map((category) => {
+          const current = getCategoryStation(category._id, config);
+          return (
+            <View key={category._id} style={styles.categoryRow}>
+              <ThemedText style={styles.categoryName}>{category.name}</ThemedText>
+              <View style={styles.chips}>
+                {config.stations.map((station) => (
+                  <TouchableOpacity
+                    key={station.name}
+                    style={[styles.chip, current === station.name && styles.chipSelected]}
+                    onPress={() => assign(category._id, station.name)}
+                  >
+                    <ThemedText style={[styles.chipText, current === station.name && styles.chipTextSelected]}>
+                      {station.name}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.button, styles.cancel]} onPress={() => router.back()} disabled={saving}>
+          <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.save]} onPress={handleSave} disabled={saving}>
+          {saving ? <ActivityIndicator color="#fff" /> : <ThemedText style={styles.buttonText}>Save</ThemedText>}
+        </TouchableOpacity>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    paddingTop: 56,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    paddingBottom: 16,
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  stationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  stationName: {
+    width: 80,
+    fontWeight: '600',
+  },
+  input: {
+    flex: 1,
+    height: 42,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    color: '#000',
+    backgroundColor: '#fff',
+  },
+  removeText: {
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  linkText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  categoryRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  categoryName: {
+    marginBottom: 6,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#5856D6',
+  },
+  chipSelected: {
+    backgroundColor: '#5856D6',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#5856D6',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  cancel: {
+    backgroundColor: '#8E8E93',
+  },
+  save: {
+    backgroundColor: '#007AFF',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
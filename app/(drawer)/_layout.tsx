@@ -25,6 +25,27 @@ export default function DrawerLayout() {
           headerShown: false,
         }}
       />
+      <Drawer.Screen
+        name="Printers"
+        options={{
+          title: "Printers",
+          headerShown: false,
+        }}
+      />
+      <Drawer.Screen
+        name="Stations"
+        options={{
+          title: "Kitchen Stations",
+          headerShown: false,
+        }}
+      />
+      <Drawer.Screen
+        name="FloorPlan"
+        options={{
+          title: "Floor Plan",
+          headerShown: false,
+        }}
+      />
       <Drawer.Screen
         name="Logout"
         options={{
@@ -1,5 +1,5 @@
 import { Tabs, useRouter } from 'expo-router';
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { DrawerToggleButton } from '@react-navigation/drawer';
 import { HeaderBackButton } from '@react-navigation/elements';
 import { DrawerActions, useNavigation } from '@react-navigation/native'; // ✅ add this
@@ -7,11 +7,21 @@ import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useReadyAlerts } from '@/hooks/use-ready-alerts';
+import { getServerUrl } from '@/services/api-client';
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
   const router = useRouter();
     const navigation = useNavigation(); 
+  const [hasServer, setHasServer] = useState(false);
+
+  useEffect(() => {
+    getServerUrl().then((url) => setHasServer(!!url));
+  }, []);
+
+  // Buzz when the kitchen marks a table's food ready, on whichever screen is open
+  useReadyAlerts(hasServer);
 
   return (
     <Tabs
@@ -1,15 +1,53 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, Alert, View, RefreshControl } from 'react-native';
-import axios from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api, getServerUrl, isAuthError, isNetworkError } from '@/services/api-client';
+import type { Bill, OrderType, PrepStatus, TableStatusSummary } from '@/services/api-types';
+import { getBillPrepStatus, getSummaryPrepStatus, PREP_STATUS_LABELS } from '@/services/prep-status';
+import { getEventTableNumber, type BillEvent } from '@/services/realtime';
+import { loadCaptain, subscribeSession, type Captain } from '@/services/session';
+import { assignTableCaptain, mergeTableBills, moveTableBill } from '@/services/table-actions';
+import { fetchCaptains, fetchTableAssignments } from '@/services/table-assignments';
+import {
+  EMPTY_FLOOR_PLAN,
+  getSectionGrid,
+  nextFreeSpot,
+  getTableName,
+  loadFloorPlan,
+  resolveFloorPlan,
+  type FloorPlan,
+  type FloorSection,
+  type FloorTable,
+} from '@/services/floor-plan';
+import {
+  ACTIVE_BILL_STATUSES,
+  fetchTableStatuses,
+  loadCachedTableStatuses,
+  summarizeBill,
+} from '@/services/table-status';
+import {
+  fetchOpenOrders,
+  allocateTokenNumber,
+  isTakeawayBill,
+  OFFLINE_TAKEAWAY_MESSAGE,
+  ORDER_TYPE_LABELS,
+  toOrderType,
+  type CustomerDetails,
+} from '@/services/takeaway-orders';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { useNavigation, DrawerActions } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useBillEvents } from '@/hooks/use-bill-events';
+import { useOrderOutbox } from '@/hooks/use-order-outbox';
+import { useReadyTables } from '@/hooks/use-ready-alerts';
 import { Colors } from '@/constants/theme';
 
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { TablePickerModal, type TableAction } from '@/components/table-picker-modal';
+import { CustomerDetailsModal } from '@/components/customer-details-modal';
+import { CoversModal } from '@/components/covers-modal';
+import { CaptainPickerModal } from '@/components/captain-picker-modal';
 
 export default function HomeScreen() {
   const router = useRouter();
@@ -17,17 +55,83 @@ export default function HomeScreen() {
   const insets = useSafeAreaInsets();
   const colorScheme = useColorScheme();
   const [availableTables, setAvailableTables] = useState<number[]>([]);
-  const [occupiedTables, setOccupiedTables] = useState<Set<number>>(new Set());
+  const [savedPlan, setSavedPlan] = useState<FloorPlan>(EMPTY_FLOOR_PLAN);
+  // Sections and labels from the floor plan; tables it does not place are added to it
+  const floorPlan = useMemo(() => resolveFloorPlan(savedPlan, availableTables), [savedPlan, availableTables]);
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [captain, setCaptain] = useState<Captain | null>(null);
+  const [myTablesOnly, setMyTablesOnly] = useState(false);
+  // Active bill per occupied table (bill number, item count, running total)
+  const [tableSummaries, setTableSummaries] = useState<Map<number, TableStatusSummary>>(new Map());
+  const occupiedTables = useMemo(() => new Set(tableSummaries.keys()), [tableSummaries]);
+  // Captain per assigned table; null when the server has no assignments
+  const [assignments, setAssignments] = useState<Map<number, Captain> | null>(null);
+  // The table's captain: its assignment, else the captain on its running bill
+  const captainOf = useCallback(
+    (tableNumber: number): Captain | null => {
+      const assigned = assignments?.get(tableNumber);
+      if (assigned) return assigned;
+      const summary = tableSummaries.get(tableNumber);
+      return summary?.captainId ? { id: summary.captainId, name: summary.captainName || '' } : null;
+    },
+    [assignments, tableSummaries]
+  );
+  // Another captain's table, by that captain's name
+  const otherCaptainOf = (tableNumber: number) => {
+    const owner = captainOf(tableNumber);
+    return owner && captain && owner.id !== captain.id ? owner.name || 'another captain' : null;
+  };
+  // The section on screen; "My tables" lays out the captain's tables on their own
+  const section = useMemo<FloorSection | undefined>(() => {
+    if (!myTablesOnly || !captain) return floorPlan.sections[Math.min(sectionIndex, floorPlan.sections.length - 1)];
+    const tables: FloorTable[] = [];
+    floorPlan.sections
+      .flatMap((s) => s.tables)
+      .filter((t) => captainOf(t.tableNumber)?.id === captain.id)
+      .forEach((t) => tables.push({ ...t, ...nextFreeSpot(tables) }));
+    return { name: 'My tables', tables };
+  }, [floorPlan, sectionIndex, myTablesOnly, captain, captainOf]);
+  const prepStatuses = useMemo(
+    () => new Map<number, PrepStatus>([...tableSummaries].map(([table, summary]) => [table, getSummaryPrepStatus(summary)])),
+    [tableSummaries]
+  );
+  // Tables the kitchen has marked ready (watched from the tabs layout)
+  const { readyTables, dismiss: dismissReady } = useReadyTables();
   const [selectedTable, setSelectedTable] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [apiUrl, setApiUrl] = useState<string | null>(null);
   const [isLoadingIp, setIsLoadingIp] = useState(true);
+  const [tableAction, setTableAction] = useState<{ action: TableAction; tableNumber: number } | null>(null);
+  const [tableActionBusy, setTableActionBusy] = useState(false);
+  // Open takeaway and delivery orders; null when the server cannot list them
+  const [openOrders, setOpenOrders] = useState<Bill[] | null>(null);
+  const [newOrderType, setNewOrderType] = useState<OrderType | null>(null);
+  const [coversTable, setCoversTable] = useState<number | null>(null); // free table waiting for its guest count
+  // Table being assigned, with the captains to pick from (null while they load)
+  const [captainPicker, setCaptainPicker] = useState<{ tableNumber: number; captains: Captain[] | null } | null>(null);
+  const [assigning, setAssigning] = useState(false);
+
+  const refreshOpenOrders = useCallback(
+    () =>
+      fetchOpenOrders()
+        .then(setOpenOrders)
+        .catch((err) => console.warn('Failed to fetch open orders:', err?.message || err)),
+    []
+  );
+
+  const refreshAssignments = useCallback(
+    () =>
+      fetchTableAssignments()
+        .then(setAssignments)
+        .catch((err) => console.warn('Failed to fetch table assignments:', err?.message || err)),
+    []
+  );
 
   useEffect(() => {
     const loadApiUrl = async () => {
       try {
-        const savedIp = await AsyncStorage.getItem('server_ip');
+        const savedIp = await getServerUrl();
         if (savedIp) {
           setApiUrl(savedIp);
         }
@@ -38,6 +142,10 @@ export default function HomeScreen() {
       }
     };
     loadApiUrl();
+    // Paint last known occupancy right away; the fresh feed replaces it
+    loadCachedTableStatuses().then((cached) => {
+      setTableSummaries((prev) => (prev.size === 0 ? cached : prev));
+    });
   }, []);
 
   const fetchAvailableTables = useCallback(async () => {
@@ -51,19 +159,15 @@ export default function HomeScreen() {
     }
 
     setLoading(true);
+    refreshOpenOrders();
+    refreshAssignments();
     try {
-      const token = await AsyncStorage.getItem('token');
-      
       // Fetch total table count
-      const tablesResponse = await axios.get(`${apiUrl}/api/tables/currentCount`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const { count } = await api.getTableCount();
 
-      if (tablesResponse.status === 200 && tablesResponse.data.count >= 1) {
+      if (count >= 1) {
         // Generate an array from 1 to the count received
-        const allTables = Array.from({ length: tablesResponse.data.count }, (_, i) => i + 1);
+        const allTables = Array.from({ length: count }, (_, i) => i + 1);
 
         // Show ALL tables so waiters can manage existing orders
         // Check each table to mark which ones have active orders (for visual indication)
@@ -71,74 +175,84 @@ export default function HomeScreen() {
         // Stop showing the loader immediately after count is known
         setLoading(false);
 
-        // Check each table individually to see which ones are occupied (for visual indication only)
-        // Using getTableStatus endpoint which checks for active orders per table
-        try {
-          const occupiedStatuses = ['pending', 'preparing', 'ready'];
-          const occupiedTableNumbers: number[] = [];
-
-          // Check each table to see if it has an active order
-          const tableChecks = allTables.map(async (tableNum) => {
-            try {
-              const tableResponse = await axios.post(
-                `${apiUrl}/api/bill/getTableStatus`,
-                { tableNumber: tableNum },
-                {
-                  headers: {
-                    'Content-Type': 'application/json',
-                    Authorization: `Bearer ${token}`,
-                  },
-                }
-              );
-
-              // If status is 'success', table has an active order
-              // Check if the order status is in occupied statuses
-              if (tableResponse.data.status === 'success' && tableResponse.data.data) {
-                const billStatus = tableResponse.data.data.status;
-                if (occupiedStatuses.includes(billStatus)) {
-                  occupiedTableNumbers.push(tableNum);
-                }
-              }
-              // If status is 'table-free', table is available (don't add to occupiedTableNumbers)
-              // If status is 'success' but bill status is 'completed', 'bill-printed', or 'cancelled', table is available
-            } catch (tableErr: any) {
-              // If there's an error checking a table, assume it's available
-              // This ensures tables are shown even if API check fails
-            }
+        // Occupancy comes from the bulk status feed (per-table calls on older
+        // servers). Kick off in background; do not block initial render, and
+        // keep the cached statuses on screen until the fresh ones arrive.
+        fetchTableStatuses(allTables)
+          .then(setTableSummaries)
+          .catch((billsErr: any) => {
+            console.error('Error checking table statuses:', billsErr);
           });
-
-          // Kick off in background; do not block initial render
-          Promise.all(tableChecks)
-            .then(() => {
-              const occupiedSet = new Set(occupiedTableNumbers);
-              setOccupiedTables(occupiedSet);
-            })
-            .catch((billsErr: any) => {
-              console.error('Error checking table statuses:', billsErr);
-              setOccupiedTables(new Set());
-            });
-        } catch (billsErr: any) {
-          // If there's a general error, just show all tables
-          console.error('Error checking table statuses:', billsErr);
-          setOccupiedTables(new Set());
-        }
       } else {
         setAvailableTables([]);
-        setOccupiedTables(new Set());
+        setTableSummaries(new Map());
         Alert.alert('No Tables', 'No available tables found.');
       }
     } catch (err: any) {
       console.error('Error fetching available tables:', err);
-      Alert.alert(
-        'Failed to fetch available tables',
-        err.response?.data?.message || err.message || 'Please check your connection and try again.'
-      );
+      if (!isAuthError(err)) {
+        Alert.alert(
+          'Failed to fetch available tables',
+          err.message || 'Please check your connection and try again.'
+        );
+      }
       setAvailableTables([]);
-      setOccupiedTables(new Set());
+      setTableSummaries(new Map());
       } finally {
         setLoading(false);
       }
-    }, [apiUrl, isLoadingIp]);
+    }, [apiUrl, isLoadingIp, refreshOpenOrders, refreshAssignments]);
+
+  // Reload the grid once the captain signs back in after a 401
+  useEffect(
+    () =>
+      subscribeSession((event) => {
+        if (event !== 'restored') return;
+        // The re-login may be a different captain
+        loadCaptain().then(setCaptain);
+        fetchAvailableTables();
+      }),
+    [fetchAvailableTables]
+  );
+
+  // Live occupancy: other captains' bills show up as they are created/updated/closed
+  const handleBillEvent = useCallback(({ bill }: BillEvent) => {
+    if (isTakeawayBill(bill)) {
+      setOpenOrders((prev) => {
+        if (!prev) return prev;
+        const others = prev.filter((b) => b._id !== bill._id);
+        if (!ACTIVE_BILL_STATUSES.includes(bill.status)) return others;
+        return [...others, bill].sort((a, b) => (a.tokenNumber ?? 0) - (b.tokenNumber ?? 0));
+      });
+      return;
+    }
+    const tableNumber = getEventTableNumber(bill);
+    if (!tableNumber) return;
+    setTableSummaries((prev) => {
+      const next = new Map(prev);
+      if (ACTIVE_BILL_STATUSES.includes(bill.status)) {
+        next.set(tableNumber, summarizeBill(tableNumber, bill));
+      } else if (next.get(tableNumber)?.billId === bill._id) {
+        next.delete(tableNumber);
+      }
+      return next;
+    });
+  }, []);
+
+  // Polling fallback while the realtime socket is down; statuses only, no loader or alerts
+  const pollTableStatuses = useCallback(() => {
+    refreshOpenOrders();
+    refreshAssignments();
+    if (availableTables.length === 0) return;
+    fetchTableStatuses(availableTables)
+      .then(setTableSummaries)
+      .catch((err) => console.warn('Polling table statuses failed:', err?.message || err));
+  }, [availableTables, refreshOpenOrders, refreshAssignments]);
+
+  useBillEvents(!isLoadingIp && !!apiUrl, handleBillEvent, pollTableStatuses);
+
+  // Orders captured while offline; refresh the grid once they reach the server
+  const { entries: outboxEntries, pendingTables } = useOrderOutbox(apiUrl, fetchAvailableTables);
 
   useEffect(() => {
     // Only fetch tables after IP loading is complete
@@ -147,23 +261,174 @@ export default function HomeScreen() {
     }
   }, [apiUrl, isLoadingIp, fetchAvailableTables]);
 
-  // Refresh table availability when screen comes into focus
+  // Refresh table availability when screen comes into focus; the floor plan
+  // may have been edited from the drawer
   useFocusEffect(
     useCallback(() => {
+      loadFloorPlan().then(setSavedPlan);
+      loadCaptain().then(setCaptain);
       if (!isLoadingIp && apiUrl) {
         fetchAvailableTables();
       }
     }, [apiUrl, isLoadingIp, fetchAvailableTables])
   );
 
+  // Long-press a table to assign it to a captain; an occupied table's order can
+  // also be moved, or another table merged into it
+  const handleTableLongPress = (tableNumber: number) => {
+    const assign = { text: 'Assign captain', onPress: () => openCaptainPicker(tableNumber) };
+    if (!occupiedTables.has(tableNumber)) {
+      const owner = captainOf(tableNumber);
+      Alert.alert(getTableName(floorPlan, tableNumber), owner ? `Assigned to ${owner.name}.` : 'Not assigned to a captain.', [
+        assign,
+        { text: 'Cancel', style: 'cancel' },
+      ]);
+      return;
+    }
+    Alert.alert(getTableName(floorPlan, tableNumber), 'What would you like to do with this order?', [
+      { text: 'Move to table', onPress: () => setTableAction({ action: 'move', tableNumber }) },
+      { text: 'Merge with table', onPress: () => setTableAction({ action: 'merge', tableNumber }) },
+      assign,
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const openCaptainPicker = async (tableNumber: number) => {
+    setCaptainPicker({ tableNumber, captains: null });
+    try {
+      const captains = await fetchCaptains();
+      setCaptainPicker((prev) => (prev?.tableNumber === tableNumber ? { tableNumber, captains } : prev));
+    } catch (err: any) {
+      console.error('Error loading captains:', err);
+      setCaptainPicker(null);
+      if (!isAuthError(err)) Alert.alert('Failed to load captains', err.message || 'Unknown error');
+    }
+  };
+
+  const handleAssignCaptain = async (assignee: Captain | null) => {
+    if (!captainPicker) return;
+    const { tableNumber } = captainPicker;
+    setAssigning(true);
+    try {
+      await assignTableCaptain(tableNumber, assignee);
+      setCaptainPicker(null);
+      fetchAvailableTables();
+    } catch (err: any) {
+      console.error('Error assigning table:', err);
+      if (!isAuthError(err)) Alert.alert('Failed to assign table', err.message || 'Unknown error');
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const handleTableActionTarget = async (target: number) => {
+    if (!tableAction) return;
+    const { action, tableNumber } = tableAction;
+    setTableActionBusy(true);
+    try {
+      if (action === 'move') {
+        await moveTableBill(tableNumber, target);
+        Alert.alert(
+          'Table Moved',
+          `The order from ${getTableName(floorPlan, tableNumber)} is now on ${getTableName(floorPlan, target)}.`
+        );
+      } else {
+        await mergeTableBills(target, tableNumber);
+        Alert.alert(
+          'Tables Merged',
+          `${getTableName(floorPlan, target)}'s order was added to ${getTableName(floorPlan, tableNumber)}.`
+        );
+      }
+      setTableAction(null);
+      fetchAvailableTables();
+    } catch (err: any) {
+      console.error(`Error during table ${action}:`, err);
+      if (!isAuthError(err)) {
+        Alert.alert(action === 'move' ? 'Failed to move table' : 'Failed to merge tables', err.message || 'Unknown error');
+      }
+    } finally {
+      setTableActionBusy(false);
+    }
+  };
+
+  // Another captain's table can be opened or taken over, but not by accident
   const handleTableSelect = (tableNumber: number) => {
+    const otherCaptain = otherCaptainOf(tableNumber);
+    if (!otherCaptain) {
+      startTable(tableNumber);
+      return;
+    }
+    Alert.alert(getTableName(floorPlan, tableNumber), `This table is assigned to ${otherCaptain}.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Open anyway', onPress: () => startTable(tableNumber) },
+      { text: 'Take over', onPress: () => handleTakeOver(tableNumber) },
+    ]);
+  };
+
+  // A free table asks for the guest count first; the order screen puts it on the new bill
+  const startTable = (tableNumber: number) => {
+    if (occupiedTables.has(tableNumber)) openTable(tableNumber);
+    else setCoversTable(tableNumber);
+  };
+
+  const handleTakeOver = async (tableNumber: number) => {
+    if (!captain) return;
+    try {
+      await assignTableCaptain(tableNumber, captain);
+      startTable(tableNumber);
+      fetchAvailableTables();
+    } catch (err: any) {
+      console.error('Error taking over table:', err);
+      if (!isAuthError(err)) {
+        Alert.alert('Failed to take over table', err.message || 'Unknown error');
+      }
+    }
+  };
+
+  const openTable = (tableNumber: number, covers?: number) => {
     setSelectedTable(tableNumber);
     router.push({
       pathname: '/(tabs)/order',
-      params: { tableNumber: tableNumber.toString() },
+      params: { tableNumber: tableNumber.toString(), ...(covers ? { covers: covers.toString() } : {}) },
     } as any);
   };
 
+  // Takeaway and delivery orders have no table: they open by bill id, the token is only shown
+  const handleOpenOrderSelect = (bill: Bill) => {
+    router.push({
+      pathname: '/(tabs)/order',
+      params: {
+        tableNumber: '',
+        orderType: toOrderType(bill.orderType),
+        tokenNumber: String(bill.tokenNumber),
+        billId: bill._id,
+      },
+    } as any);
+  };
+
+  const handleStartOrder = async (customer: CustomerDetails) => {
+    const orderType = newOrderType;
+    if (!orderType) return;
+    setNewOrderType(null);
+    try {
+      const tokenNumber = await allocateTokenNumber();
+      router.push({
+        pathname: '/(tabs)/order',
+        params: {
+          tableNumber: '',
+          orderType,
+          tokenNumber: String(tokenNumber),
+          customerName: customer.name,
+          customerPhone: customer.phone,
+          customerAddress: customer.address,
+        },
+      } as any);
+    } catch (err: any) {
+      if (isNetworkError(err)) Alert.alert('No Connection', OFFLINE_TAKEAWAY_MESSAGE);
+      else Alert.alert('Error', err?.message || 'Failed to start the order');
+    }
+  };
+
   return (
     <ThemedView style={styles.container}>
       {/* Header */}
@@ -174,6 +439,24 @@ export default function HomeScreen() {
           <ThemedText style={[styles.menuIcon, { color: Colors[colorScheme ?? 'light'].tint }]}>≡</ThemedText>
         </TouchableOpacity>
       </View> */}
+      {readyTables.map((tableNumber) => (
+        <View key={tableNumber} style={styles.readyBanner}>
+          <TouchableOpacity
+            style={styles.readyBannerBody}
+            onPress={() => {
+              dismissReady(tableNumber);
+              handleTableSelect(tableNumber);
+            }}
+          >
+            <ThemedText style={styles.readyBannerText}>
+              {getTableName(floorPlan, tableNumber)}: food is ready to serve
+            </ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => dismissReady(tableNumber)} hitSlop={8}>
+            <ThemedText style={styles.readyBannerText}>✕</ThemedText>
+          </TouchableOpacity>
+        </View>
+      ))}
       <ScrollView 
         contentContainerStyle={styles.scrollContent}
         refreshControl={
@@ -197,6 +480,53 @@ export default function HomeScreen() {
           </ThemedText>
         </ThemedView>
 
+        {openOrders && (
+          <View style={styles.counterSection}>
+            <View style={styles.counterActions}>
+              {(['takeaway', 'delivery'] as OrderType[]).map((type) => (
+                <TouchableOpacity key={type} style={styles.counterButton} onPress={() => setNewOrderType(type)}>
+                  <ThemedText style={styles.counterButtonText}>New {ORDER_TYPE_LABELS[type]}</ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {openOrders.length > 0 && (
+              <>
+                <ThemedText style={styles.sectionTitle}>Takeaway & Delivery</ThemedText>
+                {openOrders.map((bill) => {
+                  const prepStatus = getBillPrepStatus(bill);
+                  const itemCount = (bill.items || [])
+                    .filter((i) => i.status !== 'canceled')
+                    .reduce((sum, i) => sum + (i.quantity || 0), 0);
+                  return (
+                    <TouchableOpacity
+                      key={bill._id}
+                      style={[
+                        styles.orderTile,
+                        prepStatus === 'preparing' && styles.tableButtonPreparing,
+                        prepStatus === 'ready' && styles.tableButtonReady,
+                      ]}
+                      onPress={() => handleOpenOrderSelect(bill)}
+                      activeOpacity={0.7}
+                    >
+                      <ThemedText style={styles.orderToken}>#{bill.tokenNumber}</ThemedText>
+                      <View style={styles.orderTileBody}>
+                        <ThemedText style={styles.orderTileTitle} numberOfLines={1}>
+                          {ORDER_TYPE_LABELS[toOrderType(bill.orderType)]}
+                          {bill.customerName ? ` · ${bill.customerName}` : ''}
+                        </ThemedText>
+                        <ThemedText style={styles.tableSummaryText} numberOfLines={1}>
+                          {itemCount} items · ₹{(bill.payableAmount ?? bill.totalAmount ?? 0).toFixed(0)}
+                          {prepStatus !== 'pending' ? ` · ${PREP_STATUS_LABELS[prepStatus]}` : ''}
+                        </ThemedText>
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
+              </>
+            )}
+          </View>
+        )}
+
         {loading ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#007AFF" />
@@ -214,41 +544,155 @@ export default function HomeScreen() {
           </View>
         ) : (
           <ThemedView style={styles.tablesContainer}>
-            <ThemedView style={styles.tableGrid}>
-              {availableTables.map((tableNumber) => {
-                const isOccupied = occupiedTables.has(tableNumber);
-                return (
-                  <TouchableOpacity
-                    key={tableNumber}
-                    style={[
-                      styles.tableButton,
-                      isOccupied && styles.tableButtonOccupied,
-                      selectedTable === tableNumber && styles.tableButtonSelected,
-                    ]}
-                    onPress={() => handleTableSelect(tableNumber)}
-                    activeOpacity={0.7}
-                  >
-                    <ThemedText
-                      style={[
-                        styles.tableButtonText,
-                        isOccupied && styles.tableButtonTextOccupied,
-                        selectedTable === tableNumber && styles.tableButtonTextSelected,
-                      ]}
+            {captain && (
+              <TouchableOpacity
+                style={[styles.sectionTab, styles.myTablesToggle, myTablesOnly && styles.sectionTabSelected]}
+                onPress={() => setMyTablesOnly((on) => !on)}
+              >
+                <ThemedText style={[styles.sectionTabText, myTablesOnly && styles.sectionTabTextSelected]}>
+                  My tables
+                </ThemedText>
+              </TouchableOpacity>
+            )}
+            {myTablesOnly && section?.tables.length === 0 && (
+              <ThemedText style={styles.emptySubtext}>No tables are assigned to you.</ThemedText>
+            )}
+            {!myTablesOnly && floorPlan.sections.length > 1 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.sectionTabs}>
+                {floorPlan.sections.map((s, i) => {
+                  const busy = s.tables.filter((t) => occupiedTables.has(t.tableNumber)).length;
+                  return (
+                    <TouchableOpacity
+                      key={i}
+                      style={[styles.sectionTab, s === section && styles.sectionTabSelected]}
+                      onPress={() => setSectionIndex(i)}
                     >
-                      {tableNumber}
-                    </ThemedText>
-                    {isOccupied && (
-                      <ThemedText style={styles.occupiedIndicator}>●</ThemedText>
-                    )}
-                  </TouchableOpacity>
-                );
-              })}
+                      <ThemedText style={[styles.sectionTabText, s === section && styles.sectionTabTextSelected]}>
+                        {s.name} · {busy}/{s.tables.length}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+            <ThemedView style={styles.tableGrid}>
+              {section && getSectionGrid(section).map((cells, row) => (
+                <View key={row} style={styles.tableRow}>
+                  {cells.map((table, col) => {
+                    if (!table) return <View key={col} style={styles.tableSpacer} />;
+                    const { tableNumber } = table;
+                    const isOccupied = occupiedTables.has(tableNumber);
+                    const summary = tableSummaries.get(tableNumber);
+                    const prepStatus = prepStatuses.get(tableNumber);
+                    const isPendingSync = pendingTables.has(tableNumber);
+                    const hasSyncConflict = outboxEntries.some(
+                      (e) => e.tableNumber === tableNumber && e.state === 'conflict'
+                    );
+                    return (
+                      <TouchableOpacity
+                        key={tableNumber}
+                        style={[
+                          styles.tableButton,
+                          isOccupied && styles.tableButtonOccupied,
+                          prepStatus === 'preparing' && styles.tableButtonPreparing,
+                          prepStatus === 'ready' && styles.tableButtonReady,
+                          selectedTable === tableNumber && styles.tableButtonSelected,
+                        ]}
+                        onPress={() => handleTableSelect(tableNumber)}
+                        onLongPress={() => handleTableLongPress(tableNumber)}
+                        activeOpacity={0.7}
+                      >
+                        <ThemedText
+                          style={[
+                            styles.tableButtonText,
+                            isOccupied && styles.tableButtonTextOccupied,
+                            selectedTable === tableNumber && styles.tableButtonTextSelected,
+                          ]}
+                          numberOfLines={1}
+                          adjustsFontSizeToFit
+                        >
+                          {table.label}
+                        </ThemedText>
+                        {isOccupied ? (
+                          <ThemedText style={styles.occupiedIndicator}>●</ThemedText>
+                        ) : (
+                          <ThemedText style={styles.capacityText}>{table.capacity} seats</ThemedText>
+                        )}
+                        {summary && (
+                          <View style={styles.tableSummary}>
+                            <ThemedText style={styles.tableSummaryText} numberOfLines={1}>
+                              #{summary.billNumber}
+                            </ThemedText>
+                            <ThemedText style={styles.tableSummaryText} numberOfLines={1}>
+                              {summary.itemCount} items · ₹{summary.runningTotal.toFixed(0)}
+                            </ThemedText>
+                            {prepStatus && prepStatus !== 'pending' && (
+                              <ThemedText style={[styles.tableSummaryText, styles.prepStatusText]} numberOfLines={1}>
+                                {PREP_STATUS_LABELS[prepStatus]}
+                              </ThemedText>
+                            )}
+                          </View>
+                        )}
+                        {!!otherCaptainOf(tableNumber) && (
+                          <ThemedText style={styles.tableSummaryText} numberOfLines={1}>
+                            {otherCaptainOf(tableNumber)}
+                          </ThemedText>
+                        )}
+                        {isPendingSync && (
+                          <View style={[styles.syncBadge, hasSyncConflict && styles.syncBadgeConflict]}>
+                            <ThemedText style={styles.syncBadgeText}>
+                              {hasSyncConflict ? 'Sync conflict' : 'Pending sync'}
+                            </ThemedText>
+                          </View>
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ))}
             </ThemedView>
-
-            
           </ThemedView>
         )}
       </ScrollView>
+
+      <TablePickerModal
+        action={tableAction?.action ?? null}
+        fromTable={tableAction?.tableNumber ?? null}
+        tables={availableTables}
+        occupied={occupiedTables}
+        floorPlan={floorPlan}
+        loading={tableActionBusy}
+        onSelect={handleTableActionTarget}
+        onCancel={() => setTableAction(null)}
+      />
+
+      <CoversModal
+        visible={coversTable !== null}
+        title={coversTable ? getTableName(floorPlan, coversTable) : ''}
+        initial={null}
+        onConfirm={(covers) => {
+          const tableNumber = coversTable;
+          setCoversTable(null);
+          if (tableNumber) openTable(tableNumber, covers);
+        }}
+        onCancel={() => setCoversTable(null)}
+      />
+
+      <CaptainPickerModal
+        visible={captainPicker !== null}
+        title={captainPicker ? getTableName(floorPlan, captainPicker.tableNumber) : ''}
+        captains={captainPicker?.captains ?? null}
+        currentId={captainPicker ? captainOf(captainPicker.tableNumber)?.id ?? null : null}
+        busy={assigning}
+        onSelect={handleAssignCaptain}
+        onCancel={() => setCaptainPicker(null)}
+      />
+
+      <CustomerDetailsModal
+        orderType={newOrderType}
+        onConfirm={handleStartOrder}
+        onCancel={() => setNewOrderType(null)}
+      />
     </ThemedView>
   );
 }
@@ -343,19 +787,51 @@ const styles = StyleSheet.create({
   tablesContainer: {
     flex: 1,
   },
+  myTablesToggle: {
+    alignSelf: 'flex-start',
+    marginBottom: 12,
+  },
+  sectionTabs: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  sectionTab: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  sectionTabSelected: {
+    backgroundColor: '#007AFF',
+  },
+  sectionTabText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  sectionTabTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   tableGrid: {
+    gap: 12,
+  },
+  // One row of the section's floor plan; empty spots keep their place
+  tableRow: {
     flexDirection: 'row',
-    flexWrap: 'wrap',
-    justifyContent: 'space-between',
+    gap: 12,
+  },
+  tableSpacer: {
+    flex: 1,
   },
   tableButton: {
-    width: '30%',
+    flex: 1,
     aspectRatio: 1,
     backgroundColor: '#E5E5EA',
     borderRadius: 12,
     justifyContent: 'center',
     alignItems: 'center',
-    marginBottom: 12,
+    paddingHorizontal: 4,
     borderWidth: 2,
     borderColor: 'transparent',
     position: 'relative',
@@ -365,6 +841,16 @@ const styles = StyleSheet.create({
     borderColor: '#FFC107',
     borderWidth: 2,
   },
+  tableButtonPreparing: {
+    backgroundColor: '#FFE5CC',
+    borderColor: '#FF9500',
+  },
+  // Food waiting at the pass: the tile captains should act on first
+  tableButtonReady: {
+    backgroundColor: '#D4F5DC',
+    borderColor: '#34C759',
+    borderWidth: 3,
+  },
   tableButtonSelected: {
     backgroundColor: '#007AFF',
     borderColor: '#0051D5',
@@ -388,6 +874,101 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#FFC107',
   },
+  capacityText: {
+    fontSize: 11,
+    lineHeight: 14,
+    color: '#8E8E93',
+  },
+  tableSummary: {
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  tableSummaryText: {
+    fontSize: 11,
+    lineHeight: 14,
+    color: '#856404',
+  },
+  prepStatusText: {
+    fontWeight: '600',
+  },
+  readyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#34C759',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  readyBannerBody: {
+    flex: 1,
+  },
+  readyBannerText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  syncBadge: {
+    position: 'absolute',
+    bottom: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    backgroundColor: '#FF9500',
+  },
+  syncBadgeConflict: {
+    backgroundColor: '#FF3B30',
+  },
+  syncBadgeText: {
+    fontSize: 10,
+    lineHeight: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  counterSection: {
+    marginBottom: 20,
+  },
+  counterActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  counterButton: {
+    flex: 1,
+    backgroundColor: '#5856D6',
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  counterButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  orderTile: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF3CD',
+    borderColor: '#FFC107',
+    borderWidth: 2,
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 8,
+  },
+  orderToken: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#856404',
+    minWidth: 56,
+  },
+  orderTileBody: {
+    flex: 1,
+  },
+  orderTileTitle: {
+    fontWeight: '600',
+    color: '#856404',
+  },
   selectedTableContainer: {
     marginTop: 30,
     padding: 16,
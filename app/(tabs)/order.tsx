@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import {
   StyleSheet,
   TouchableOpacity,
@@ -10,8 +10,6 @@ import {
   Modal,
   FlatList,
 } from 'react-native';
-import axios from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useNavigation, DrawerActions, useFocusEffect } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -19,36 +17,166 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { HighlightedText } from '@/components/highlighted-text';
+import { BillPreviewModal } from '@/components/bill-preview-modal';
+import { CoversModal } from '@/components/covers-modal';
+import { DiscountModal } from '@/components/discount-modal';
+import { KotMergeModal } from '@/components/kot-merge-modal';
+import { PaymentSheet } from '@/components/payment-sheet';
+import { LineOptionsModal } from '@/components/line-options-modal';
+import { ProductOptionsModal } from '@/components/product-options-modal';
+import { SplitBillModal, type SplitLine } from '@/components/split-bill-modal';
+import { TablePickerModal, type TableAction } from '@/components/table-picker-modal';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useBillEvents } from '@/hooks/use-bill-events';
+import { useOrderOutbox } from '@/hooks/use-order-outbox';
 import { Colors } from '@/constants/theme';
-
-interface Category {
-  _id: string;
-  name: string;
-  status: string;
+import { api, ApiError, getServerUrl, isAuthError, isNetworkError, toApiError } from '@/services/api-client';
+import type {
+  Bill,
+  BillItem,
+  BillPayment,
+  Category,
+  Course,
+  CreateBillRequest,
+  Discount,
+  OrderType,
+  PrepStatus,
+  Product,
+  TaxSettings,
+  UpdateBillRequest,
+} from '@/services/api-types';
+import {
+  buildMergeRows,
+  isBillChanged,
+  type MergeRow,
+} from '@/services/bill-merge';
+import {
+  enqueueOutboxEntry,
+  forceOutboxEntry,
+  removeOutboxEntry,
+} from '@/services/order-outbox';
+import { getEventTableNumber, type BillEvent } from '@/services/realtime';
+import { ACTIVE_BILL_STATUSES, fetchFloorStatuses } from '@/services/table-status';
+import {
+  clearOrderDraft,
+  isSessionExpired,
+  loadCaptain,
+  loadCaptainId,
+  loadOrderDraft,
+  saveOrderDraft,
+  subscribeSession,
+  type Captain,
+} from '@/services/session';
+import { createSplitBills, settleSplitBill, splitLines } from '@/services/bill-split';
+import { buildKotUpdateItems } from '@/services/kot-update';
+import {
+  computeBillTotals,
+  describeDiscount,
+  getBillAdjustments,
+  getBillItemTaxLines,
+  getDiscountAmount,
+  getProductTax,
+  isSameDiscount,
+  toAdjustmentFields,
+  toPercentDiscount,
+  toTaxLine,
+  type BillAdjustments,
+  type TaxLine,
+} from '@/services/bill-totals';
+import { billToUpdateRequest } from '@/services/bill-updates';
+import { toPaymentFields } from '@/services/payments';
+import { searchProducts, type ProductMatch } from '@/services/product-search';
+import {
+  COURSE_LABELS,
+  fireCourse,
+  getHeldCourses,
+  holdLaterCourses,
+  nextCourse,
+} from '@/services/courses';
+import { printKot } from '@/services/kot';
+import { getBillPrepStatus, PREP_STATUS_COLORS, PREP_STATUS_LABELS } from '@/services/prep-status';
+import { checkServerHealth } from '@/services/server-health';
+import {
+  fetchOpenOrder,
+  fetchOpenOrders,
+  OFFLINE_TAKEAWAY_MESSAGE,
+  ORDER_TYPE_LABELS,
+  toOrderType,
+  type CustomerDetails,
+} from '@/services/takeaway-orders';
+import { EMPTY_STATION_CONFIG, getCategoryStation, loadStationConfig, type StationConfig } from '@/services/stations';
+import { EMPTY_FLOOR_PLAN, getTableName, loadFloorPlan, type FloorPlan } from '@/services/floor-plan';
+import { mergeTableBills, moveTableBill } from '@/services/table-actions';
+import {
+  billToOrderItems,
+  isAdjustmentChanged,
+  lineKeyOf,
+  lineNetOf,
+  onScreenQuantities,
+  rebaseOrderItems,
+  unitPriceOf,
+  type ItemStatus,
+  type OrderItem,
+} from '@/services/order-items';
+import {
+  describeLineOptions,
+  getLineKey,
+  hasConfigurableOptions,
+  hasLineOptions,
+  normalizeLineOptions,
+  type LineOptions,
+} from '@/services/order-lines';
+
+const NO_LINE_OPTIONS: LineOptions = {};
+
+// The table, or takeaway/delivery token, an order screen is on
+interface OrderTarget {
+  tableNumber: number | null;
+  tokenNumber: number | null;
+  orderType: OrderType;
 }
 
-interface Product {
-  _id: string;
-  name: string;
-  category: {
-    _id: string;
-    name: string;
-  };
-  status: string;
-  Basequantity?: number | string;
-  price?: number;
+// Unsent lines saved when the session expired for this order; merged back into
+// the freshly fetched order once and then discarded
+const takeOrderDraft = async (target: OrderTarget, billId: string | null): Promise<OrderItem[]> => {
+  const draft = await loadOrderDraft<OrderItem>();
+  if (
+    !draft ||
+    draft.tableNumber !== target.tableNumber ||
+    (draft.tokenNumber ?? null) !== target.tokenNumber ||
+    toOrderType(draft.orderType) !== target.orderType
+  ) {
+    return [];
+  }
+  await clearOrderDraft();
+  return draft.items
+    .filter(i => (i.itemStatus === 'addon' || !i.itemStatus) && i.quantity > 0)
+    .map(i => ({ ...i, itemStatus: billId ? 'addon' as ItemStatus : undefined }));
+};
+
+// Order state an update is computed from; defaults to what is on screen
+interface KotSnapshot {
+  items: OrderItem[];
+  originals: OrderItem[];
+  base: Bill | null;
+  adjustments?: BillAdjustments;
 }
 
-type ItemStatus = 'original' | 'addon' | 'removed';
+// Which discount the discount modal is editing
+type DiscountTarget = { kind: 'bill' } | { kind: 'line'; localId: string };
+
+interface MergeState {
+  base: Bill;
+  current: Bill;
+  items: OrderItem[];
+  rows: MergeRow[];
+}
 
-interface OrderItem {
-  product: Product;
-  quantity: number;
-  itemStatus?: ItemStatus; // 'original' = submitted to kitchen, 'addon' = added later, 'removed' = removed from order
-  originalQuantity?: number; // Track original quantity before removal
-  localId?: string; // local client id to uniquely identify list entries
-  serverItemIds?: string[]; // IDs of server-side bill items that this client item aggregates
+// Split bills, already created, being paid one after another; `paid` counts the settled ones
+interface SplitSettlement {
+  bills: Bill[];
+  paid: number;
 }
 
 export default function OrderScreen() {
@@ -56,6 +184,14 @@ export default function OrderScreen() {
   const navigation = useNavigation() as any;
   const params = useLocalSearchParams();
   const tableNumber = params.tableNumber ? parseInt(params.tableNumber as string) : null;
+  // Takeaway and delivery orders are opened by token number instead of a table
+  const orderType = tableNumber ? 'dine-in' : toOrderType(params.orderType);
+  const tokenNumber = !tableNumber && orderType !== 'dine-in' && params.tokenNumber ? parseInt(params.tokenNumber as string) : null;
+  // A token order's bill, once it has been sent; tokens can repeat, bill ids cannot
+  const orderBillId = tokenNumber && params.billId ? (params.billId as string) : null;
+  const hasOrderTarget = !!tableNumber || !!tokenNumber;
+  const [floorPlan, setFloorPlan] = useState<FloorPlan>(EMPTY_FLOOR_PLAN); // table labels
+  const orderLabel = tableNumber ? getTableName(floorPlan, tableNumber) : tokenNumber ? `${ORDER_TYPE_LABELS[orderType]} #${tokenNumber}` : '';
   const colorScheme = useColorScheme();
   const insets = useSafeAreaInsets();
 
@@ -67,22 +203,50 @@ export default function OrderScreen() {
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [categoryDropdownVisible, setCategoryDropdownVisible] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
   const [billNumber, setBillNumber] = useState<string | null>(null);
   const [billNumberLoading, setBillNumberLoading] = useState<boolean>(false);
-  const [sequenceNumber, setSequenceNumber] = useState<number>(0);
   const [existingBillId, setExistingBillId] = useState<string | null>(null);
   const [loadingLastOrder, setLoadingLastOrder] = useState<boolean>(false);
   const [isLoadingIp, setIsLoadingIp] = useState(true);
-  const [taxSettings, setTaxSettings] = useState<{ cgst: number; sgst: number; fssaiNumber?: string }>({ cgst: 0, sgst: 0 });
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>({ cgst: 0, sgst: 0 });
   const [taxLoading, setTaxLoading] = useState<boolean>(false);
   const [originalSubmittedItems, setOriginalSubmittedItems] = useState<OrderItem[]>([]); // Track items that were originally submitted to KOT
   const [suppressRemovedAfterFetch, setSuppressRemovedAfterFetch] = useState(false);
   const [hasPendingChanges, setHasPendingChanges] = useState(false);
+  const [lastFetchedBill, setLastFetchedBill] = useState<Bill | null>(null); // last server bill: base version for updates and offline edits
+  // Kept apart from lastFetchedBill: kitchen progress arrives while the captain has unsaved edits
+  const [kitchenStatus, setKitchenStatus] = useState<PrepStatus | null>(null);
+  const [customer, setCustomer] = useState<CustomerDetails | null>(null); // takeaway and delivery orders
+  const [covers, setCovers] = useState<number | null>(null); // guests at the table
+  const [captain, setCaptain] = useState<Captain | null>(null); // signed-in captain; new bills are assigned to them
+  const [coversVisible, setCoversVisible] = useState(false);
+  const [mergeState, setMergeState] = useState<MergeState | null>(null); // another captain saved the bill under us
+  const [editingLineId, setEditingLineId] = useState<string | null>(null); // localId of the line whose notes are open
+  const [configuringProduct, setConfiguringProduct] = useState<Product | null>(null); // product whose variants/add-ons are being picked
+  const [paymentVisible, setPaymentVisible] = useState(false);
+  const [splitSettlement, setSplitSettlement] = useState<SplitSettlement | null>(null);
+  const [splitVisible, setSplitVisible] = useState(false);
+  const [splitting, setSplitting] = useState(false);
+  const [tableAction, setTableAction] = useState<TableAction | null>(null);
+  const [floor, setFloor] = useState<{ tables: number[]; occupied: Set<number> }>({ tables: [], occupied: new Set() });
+  const [tableActionBusy, setTableActionBusy] = useState(false);
+  const [billDiscount, setBillDiscount] = useState<Discount | null>(null);
+  // null until the captain toggles it or a bill is loaded: new orders use the configured rate
+  const [serviceChargePercent, setServiceChargePercent] = useState<number | null>(null);
+  const [discountTarget, setDiscountTarget] = useState<DiscountTarget | null>(null);
+  const [previewBill, setPreviewBill] = useState<Bill | null>(null); // bill shown in the print preview
+  const [stationConfig, setStationConfig] = useState<StationConfig>(EMPTY_STATION_CONFIG);
+
+  const resetAdjustments = useCallback(() => {
+    setBillDiscount(null);
+    setServiceChargePercent(null);
+  }, []);
 
   useEffect(() => {
     const loadApiUrl = async () => {
       try {
-        const savedIp = await AsyncStorage.getItem('server_ip');
+        const savedIp = await getServerUrl();
         if (savedIp) {
           setApiUrl(savedIp);
         }
@@ -104,6 +268,9 @@ export default function OrderScreen() {
 
   // Removed automatic bill number fetching - will fetch only when Submit to KOT is clicked
 
+  // Search runs across all categories, not just the selected one
+  const searchResults = useMemo(() => searchProducts(products, searchQuery), [products, searchQuery]);
+
   useEffect(() => {
     if (selectedCategory && products.length > 0) {
       const filtered = products.filter(
@@ -115,155 +282,150 @@ export default function OrderScreen() {
     }
   }, [selectedCategory, products]);
 
-// Fetch last order for the table when tableNumber and apiUrl are available
+  // The open bill this screen is on: the table's, or the takeaway/delivery order's
+  const fetchCurrentBill = useCallback(async (): Promise<Bill | undefined> => {
+    if (tableNumber) {
+      const tableStatus = await api.getTableStatus(tableNumber);
+      return tableStatus.status === 'success' ? tableStatus.data : undefined;
+    }
+    return orderBillId ? fetchOpenOrder(orderBillId) : undefined;
+  }, [tableNumber, orderBillId]);
+
+// Fetch last order for the table (or token) when it and apiUrl are available
 const fetchLastOrder = useCallback(async () => {
-  if (!apiUrl || !tableNumber || isLoadingIp) return;
+  if (!apiUrl || !hasOrderTarget || isLoadingIp) return;
   
   setLoadingLastOrder(true);
   try {
-    const token = await AsyncStorage.getItem('token');
-    // Debug token presence (masked) to help diagnose 401s
-    try {
-      const masked = token ? `${token.slice(0,6)}...${token.slice(-6)}` : 'none';
-      console.debug('fetchLastOrder: token (masked):', masked, 'apiUrl:', apiUrl);
-    } catch (e) {
-      console.debug('fetchLastOrder: token present:', !!token, 'apiUrl:', apiUrl);
-    }
-    const response = await axios.post(
-      `${apiUrl}/api/bill/getTableStatus`,
-      { tableNumber },
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-      }
-    );
+    const bill = await fetchCurrentBill();
 
     // Check if table has an active order
-    if (response?.data && response.data.status === 'success' && response.data.data) {
-      const bill = response.data.data;
-     
+    if (bill) {
+      setLastFetchedBill(bill);
+      if (bill.covers) setCovers(bill.covers);
+      if (tokenNumber) {
+        setCustomer({ name: bill.customerName || '', phone: bill.customerPhone || '', address: bill.customerAddress || '' });
+      }
       setExistingBillId(bill._id || null);
       setBillNumber(bill.billNumber || null);
+      setBillDiscount(bill.discount ?? null);
+      setServiceChargePercent(bill.serviceChargePercent ?? 0);
 
-      // Map and aggregate server items by product to avoid duplicate UI rows
-      const items = bill.items || [];
-      const itemsByProduct = new Map<string, any[]>();
-      items.forEach((bi: any) => {
-        const pid = bi.productId?._id || bi.productId;
-        if (!pid) return;
-        if (!itemsByProduct.has(pid)) itemsByProduct.set(pid, []);
-        itemsByProduct.get(pid)!.push(bi);
-      });
-
-      const mappedItems: OrderItem[] = [];
-      itemsByProduct.forEach((group: any[], pid: string) => {
-        const active = group.filter(g => g.status !== 'canceled' && (g.quantity || 0) > 0);
-        const canceled = group.filter(g => g.status === 'canceled');
-
-        if (active.length > 0) {
-          const totalQty = active.reduce((s, it) => s + (it.quantity || 0), 0);
-          const proto = active[0];
-          mappedItems.push({
-            product: {
-              _id: pid,
-              name: proto.productId?.name || proto.name || '',
-              category: proto.productId?.category || { _id: '', name: '' },
-              status: proto.productId?.status || 'active',
-              price: proto.price || proto.productId?.price || 0,
-            } as Product,
-            quantity: totalQty,
-            itemStatus: 'original',
-            localId: `srv-${pid}`,
-            serverItemIds: active.map(a => a._id).filter(Boolean),
-            originalQuantity: totalQty,
-          });
-        }
-
-        if (canceled.length > 0) {
-          const canceledTotal = canceled.reduce((s, it) => s + (it.quantity || 0), 0);
-          const proto = canceled[0];
-          mappedItems.push({
-            product: {
-              _id: pid,
-              name: proto.productId?.name || proto.name || '',
-              category: proto.productId?.category || { _id: '', name: '' },
-              status: proto.productId?.status || 'active',
-              price: proto.price || proto.productId?.price || 0,
-            } as Product,
-            quantity: 0,
-            itemStatus: 'removed',
-            localId: `srv-removed-${pid}`,
-            serverItemIds: canceled.map(c => c._id).filter(Boolean),
-            originalQuantity: canceledTotal,
-          });
-        }
-      });
+      const mappedItems = billToOrderItems(bill.items || []);
 
       // Optionally suppress removed items right after an update
       const finalMapped = suppressRemovedAfterFetch ? mappedItems.filter(i => i.itemStatus !== 'removed') : mappedItems;
-      setOrderItems(finalMapped.map((m, idx) => ({ ...m, localId: m.localId ?? `srv-${m.product._id}-${Date.now()}-${idx}` })));
+      const draftItems = await takeOrderDraft({ tableNumber, tokenNumber, orderType }, bill._id);
+      setOrderItems([
+        ...finalMapped.map((m, idx) => ({ ...m, localId: m.localId ?? `srv-${m.product._id}-${Date.now()}-${idx}` })),
+        ...draftItems,
+      ]);
       setOriginalSubmittedItems(finalMapped.filter(i => i.itemStatus === 'original'));
       if (suppressRemovedAfterFetch) setSuppressRemovedAfterFetch(false);
     } else {
       // No active bill for this table
       setExistingBillId(null);
+      setLastFetchedBill(null);
+      const draftItems = await takeOrderDraft({ tableNumber, tokenNumber, orderType }, null);
+      if (draftItems.length > 0) setOrderItems(draftItems);
     }
   } catch (err: any) {
-    // Improved diagnostics for authorization issues
-    if (axios.isAxiosError(err)) {
-      console.error('Error fetching last order - axios error:', err.response?.status, err.response?.data || err.message);
-      if (err.response?.status === 401) {
-        // Token invalid or expired - clear stored token and redirect to login
-        console.warn('Authorization failed (401). Clearing token and redirecting to login.');
-        try {
-          await AsyncStorage.removeItem('token');
-        } catch (e) {
-          console.warn('Failed to remove token from storage:', e);
-        }
-        router.replace('/screens/LoginScreen');
-      }
+    // Offline: keep whatever is on screen so the captain can keep working and
+    // queue changes; the outbox replays them once the server is back.
+    if (isNetworkError(err)) {
+      console.warn('fetchLastOrder: server unreachable, keeping local order state');
+      return;
+    }
+    // Token expired: the session prompt is up and the unsent order is kept as a draft
+    if (isAuthError(err)) {
+      console.warn('fetchLastOrder: authorization failed (401), waiting for re-login');
+      return;
+    }
+    if (err instanceof ApiError) {
+      console.error('Error fetching last order - api error:', err.status, err.data || err.message);
     } else {
       console.error('Error fetching last order:', err);
     }
 
     // Reset local order state when fetch fails
     setExistingBillId(null);
+    setLastFetchedBill(null);
     setOrderItems([]);
     setOriginalSubmittedItems([]);
+    resetAdjustments();
   } finally {
     setLoadingLastOrder(false);
   }
-}, [apiUrl, tableNumber, products, categories, isLoadingIp]);
+}, [apiUrl, hasOrderTarget, tableNumber, tokenNumber, orderType, fetchCurrentBill, products, categories, isLoadingIp, resetAdjustments]);
+
+  // Keep unsent lines safe while the re-login prompt is up (or if the captain signs out)
+  useEffect(
+    () =>
+      subscribeSession((event) => {
+        // Whoever signed back in is the captain now
+        if (event === 'restored') loadCaptain().then(setCaptain);
+        if (!hasOrderTarget) return;
+        if (event === 'expired' && hasPendingChanges) {
+          saveOrderDraft({
+            tableNumber,
+            ...(tokenNumber ? { orderType, tokenNumber, ...(customer ? { customer } : {}) } : {}),
+            billId: existingBillId,
+            items: orderItems,
+          });
+        } else if (event === 'restored') {
+          clearOrderDraft();
+        }
+      }),
+    [hasOrderTarget, tableNumber, tokenNumber, orderType, customer, existingBillId, orderItems, hasPendingChanges]
+  );
+
+  // Live updates for this table from other captains / the billing counter.
+  // Unsent local edits are never overwritten; they are reconciled on submit.
+  useEffect(() => {
+    setKitchenStatus(lastFetchedBill ? getBillPrepStatus(lastFetchedBill) : null);
+  }, [lastFetchedBill]);
+
+  const handleBillEvent = useCallback(({ bill }: BillEvent) => {
+    const isThisOrder = tableNumber
+      ? getEventTableNumber(bill) === tableNumber
+      : !!orderBillId && bill._id === orderBillId;
+    if (!isThisOrder) return;
+    if (bill._id === existingBillId && ACTIVE_BILL_STATUSES.includes(bill.status)) {
+      setKitchenStatus(getBillPrepStatus(bill));
+    }
+    if (hasPendingChanges) return;
+    if (bill._id === existingBillId && !ACTIVE_BILL_STATUSES.includes(bill.status)) {
+      // Settled or cancelled elsewhere: the table is free again
+      setExistingBillId(null);
+      setLastFetchedBill(null);
+      setBillNumber(null);
+      setOrderItems([]);
+      setOriginalSubmittedItems([]);
+      resetAdjustments();
+      return;
+    }
+    fetchLastOrder();
+  }, [tableNumber, orderBillId, hasPendingChanges, existingBillId, fetchLastOrder, resetAdjustments]);
+
+  const pollLastOrder = useCallback(() => {
+    if (!hasPendingChanges) fetchLastOrder();
+  }, [hasPendingChanges, fetchLastOrder]);
+
+  useBillEvents(!isLoadingIp && !!apiUrl && hasOrderTarget, handleBillEvent, pollLastOrder);
+
+  // Offline outbox: entries for this table are shown in a banner above the order.
+  // A replay refetches like a poll, so lines added after the queued update survive.
+  const { entries: outboxEntries, syncNow } = useOrderOutbox(apiUrl, pollLastOrder);
+  const tableOutboxEntries = outboxEntries.filter((e) => e.tableNumber === tableNumber);
 
   // Fetch tax settings from server when apiUrl available
   const fetchTaxSettings = useCallback(async () => {
     if (!apiUrl) return;
     setTaxLoading(true);
     try {
-      const token = await AsyncStorage.getItem('token');
-      const response = await axios.get(`${apiUrl}/api/tax/tax-get-settings`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-      if (response.status === 200 && response.data) {
-        const ts = response.data.taxSettings || response.data;
-        setTaxSettings({
-          cgst: parseFloat(ts.cgst) || 0,
-          sgst: parseFloat(ts.sgst) || 0,
-          fssaiNumber: ts.fssaiNumber || ts.fssai || '',
-        });
-      }
-    } catch (err: unknown) {
-      // Narrow the error safely: handle axios errors separately and fallback to generic message
-      if (axios.isAxiosError(err)) {
-        console.warn('Failed to fetch tax settings (axios):', err.response?.data || err.message || err);
-      } else {
-        const e = err as any;
-        console.warn('Failed to fetch tax settings:', e?.message || e);
-      }
+      setTaxSettings(await api.getTaxSettings());
+    } catch (err: any) {
+      console.warn('Failed to fetch tax settings:', err?.message || err);
     } finally {
       setTaxLoading(false);
     }
@@ -274,12 +436,12 @@ const fetchLastOrder = useCallback(async () => {
   }, [apiUrl, fetchTaxSettings]);
 
   useEffect(() => {
-    // Fetch when tableNumber and apiUrl are available
+    // Fetch when the table (or token) and apiUrl are available
     // Also depend on products and categories for proper mapping
-    if (apiUrl && tableNumber && !isLoadingIp) {
+    if (apiUrl && hasOrderTarget && !isLoadingIp) {
       fetchLastOrder();
     }
-  }, [apiUrl, tableNumber, products, categories, isLoadingIp, fetchLastOrder]);
+  }, [apiUrl, hasOrderTarget, products, categories, isLoadingIp, fetchLastOrder]);
 
   // Clear previous table's order immediately when switching tables so UI
   // doesn't show stale items while new table data is loading.
@@ -288,9 +450,33 @@ const fetchLastOrder = useCallback(async () => {
     setOrderItems([]);
     setOriginalSubmittedItems([]);
     setExistingBillId(null);
+    setLastFetchedBill(null);
     setBillNumber(null);
+    resetAdjustments();
+    // A new takeaway/delivery order starts with the details taken on the home screen
+    setCustomer(
+      tokenNumber
+        ? {
+            name: (params.customerName as string) || '',
+            phone: (params.customerPhone as string) || '',
+            address: (params.customerAddress as string) || '',
+          }
+        : null
+    );
+    // Guest count asked on the home screen when the table was opened
+    setCovers(tableNumber && params.covers ? parseInt(params.covers as string) || null : null);
     // Note: fetchLastOrder will run shortly after if apiUrl and tableNumber are present
-  }, [tableNumber]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- customer params only seed a new order
+  }, [tableNumber, tokenNumber, orderType, resetAdjustments]);
+
+  // Bill discount and service charge as they stand on screen
+  const billAdjustments = useMemo<BillAdjustments>(
+    () => ({
+      discount: billDiscount,
+      serviceChargePercent: serviceChargePercent ?? (taxSettings.serviceChargePercent || 0),
+    }),
+    [billDiscount, serviceChargePercent, taxSettings.serviceChargePercent]
+  );
 
   // Recompute whether there are pending changes compared to the last submitted originals
   useEffect(() => {
@@ -305,48 +491,56 @@ const fetchLastOrder = useCallback(async () => {
 
       // Removed or edited originals
       const editedOriginals = originalSubmittedItems.some(orig => {
-        const current = orderItems.find(i => i.product._id === orig.product._id && (i.itemStatus === 'original' || !i.itemStatus));
-        const removed = orderItems.find(i => i.product._id === orig.product._id && i.itemStatus === 'removed');
+        const current = orderItems.find(i => lineKeyOf(i) === lineKeyOf(orig) && (i.itemStatus === 'original' || !i.itemStatus));
+        const removed = orderItems.find(i => lineKeyOf(i) === lineKeyOf(orig) && i.itemStatus === 'removed');
         if (removed) return true;
         if (!current) return true; // original missing -> changed
-        return (current.quantity || 0) !== (orig.quantity || 0);
+        return (current.quantity || 0) !== (orig.quantity || 0) || !isSameDiscount(current.discount, orig.discount);
       });
 
-      return added || editedOriginals;
+      // Bill discount or service charge changed since the bill was loaded
+      const adjusted = !!lastFetchedBill && isAdjustmentChanged(billAdjustments, lastFetchedBill);
+
+      return added || editedOriginals || adjusted;
     };
 
     setHasPendingChanges(computePending());
-  }, [orderItems, originalSubmittedItems, existingBillId]);
+  }, [orderItems, originalSubmittedItems, existingBillId, lastFetchedBill, billAdjustments]);
 
   // Refresh order when screen comes into focus
   useFocusEffect(
     useCallback(() => {
-      if (apiUrl && tableNumber && !isLoadingIp) {
+      if (apiUrl && hasOrderTarget && !isLoadingIp) {
         fetchLastOrder();
       }
-    }, [apiUrl, tableNumber, isLoadingIp, fetchLastOrder])
+    }, [apiUrl, hasOrderTarget, isLoadingIp, fetchLastOrder])
   );
 
+  // Stations and the floor plan are edited from the drawer while this screen stays mounted
+  useFocusEffect(
+    useCallback(() => {
+      loadStationConfig()
+        .then(setStationConfig)
+        .catch((err) => console.warn('Failed to load kitchen stations:', err));
+      loadFloorPlan().then(setFloorPlan);
+      loadCaptain().then(setCaptain);
+    }, [])
+  );
+
+  // Station a new line of this product goes to
+  const stationOf = (product: Product) => getCategoryStation(product.category?._id, stationConfig);
+
   const fetchCategories = async () => {
     if (!apiUrl) return;
 
     try {
-      const token = await AsyncStorage.getItem('token');
-      const response = await axios.post(
-        `${apiUrl}/api/category/status`,
-        { statuses: ['active', 'inactive'] },
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
-      );
-      setCategories(response.data);
+      setCategories(await api.getCategories(['active', 'inactive']));
     } catch (err: any) {
       console.error('Error fetching categories:', err);
+      if (isAuthError(err)) return;
       Alert.alert(
         'Error',
-        err.response?.data?.message || err.message || 'Failed to fetch categories'
+        err.message || 'Failed to fetch categories'
       );
     }
   };
@@ -356,22 +550,13 @@ const fetchLastOrder = useCallback(async () => {
 
     setLoading(true);
     try {
-      const token = await AsyncStorage.getItem('token');
-      const response = await axios.post(
-        `${apiUrl}/api/product/all`,
-        { status: ['active', 'inactive'], categoryStatus: ['active'] },
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
-      );
-      setProducts(response.data.data.products);
+      setProducts(await api.getProducts({ status: ['active', 'inactive'], categoryStatus: ['active'] }));
     } catch (err: any) {
       console.error('Error fetching products:', err);
+      if (isAuthError(err)) return;
       Alert.alert(
         'Error',
-        err.response?.data?.message || err.message || 'Failed to fetch products'
+        err.message || 'Failed to fetch products'
       );
     } finally {
       setLoading(false);
@@ -383,9 +568,35 @@ const fetchLastOrder = useCallback(async () => {
     setCategoryDropdownVisible(false);
   };
 
-  const handleAddToOrder = (product: Product) => {
+  // Typing a short code and pressing enter adds the dish; the box clears for the next code
+  const handleSearchSubmit = () => {
+    const top = searchResults[0];
+    if (top?.codeMatched && top.score >= 1000) {
+      handleProductPress(top.product);
+      setSearchQuery('');
+    }
+  };
+
+  // Products with variants or add-ons are configured first; the rest are added straight away
+  const handleProductPress = (product: Product) => {
+    if (hasConfigurableOptions(product)) {
+      setConfiguringProduct(product);
+    } else {
+      handleAddToOrder(product);
+    }
+  };
+
+  const handleAddConfigured = (product: Product, options: LineOptions) => {
+    setConfiguringProduct(null);
+    handleAddToOrder(product, normalizeLineOptions(options));
+  };
+
+  const handleAddToOrder = (product: Product, config: LineOptions = {}) => {
+    // Adds to the line with exactly this configuration; lines with other
+    // variants, add-ons or kitchen notes are left alone
+    const plainKey = getLineKey(product._id, config);
     // Prefer matching an existing non-removed entry with same product and same status
-    const existingItem = orderItems.find((item) => item.product._id === product._id && item.itemStatus !== 'removed');
+    const existingItem = orderItems.find((item) => lineKeyOf(item) === plainKey && item.itemStatus !== 'removed');
     
     if (existingItem) {
       // If item exists and is not removed
@@ -393,7 +604,7 @@ const fetchLastOrder = useCallback(async () => {
         // Restore removed item as addon
         setOrderItems(
           orderItems.map((item) => {
-            if (item.product._id === product._id) {
+            if (lineKeyOf(item) === plainKey) {
               return { 
                 ...item, 
                 quantity: 1, 
@@ -408,34 +619,40 @@ const fetchLastOrder = useCallback(async () => {
         // If order is already submitted to KOT and this is an original item,
         // create a separate addon entry instead of incrementing the original
         const addonItem = orderItems.find(
-          (item) => item.product._id === product._id && item.itemStatus === 'addon'
+          (item) => lineKeyOf(item) === plainKey && item.itemStatus === 'addon'
         );
         
         if (addonItem) {
           // If addon entry already exists, increment it
           setOrderItems(
             orderItems.map((item) =>
-              item.product._id === product._id && item.itemStatus === 'addon'
+              lineKeyOf(item) === plainKey && item.itemStatus === 'addon'
                 ? { ...item, quantity: item.quantity + 1 }
                 : item
             )
           );
         } else {
           // Create new addon entry
-          setOrderItems([...orderItems, { product, quantity: 1, itemStatus: 'addon' as ItemStatus }]);
+          setOrderItems([...orderItems, {
+            product,
+            ...config,
+            quantity: 1,
+            itemStatus: 'addon' as ItemStatus,
+            localId: `local-${Date.now()}-${Math.random().toString(36).slice(2,8)}`,
+          }]);
         }
       } else {
         // For new orders (not submitted) or addon items, just increment quantity
         setOrderItems(
           orderItems.map((item) =>
-            item.product._id === product._id ? { ...item, quantity: item.quantity + 1 } : item
+            lineKeyOf(item) === plainKey ? { ...item, quantity: item.quantity + 1 } : item
           )
         );
       }
     } else {
       // New item - check if order already exists (submitted to KOT)
       const itemStatus: ItemStatus | undefined = existingBillId ? 'addon' : undefined;
-      const newItem: OrderItem = { product, quantity: 1, itemStatus, localId: `local-${Date.now()}-${Math.random().toString(36).slice(2,8)}` };
+      const newItem: OrderItem = { product, ...config, quantity: 1, itemStatus, localId: `local-${Date.now()}-${Math.random().toString(36).slice(2,8)}` };
       setOrderItems([...orderItems, newItem]);
     }
   };
@@ -454,7 +671,7 @@ const fetchLastOrder = useCallback(async () => {
     const isOriginal = !target.itemStatus || target.itemStatus === 'original';
     if (existingBillId && isOriginal) {
       // find existing addon for same product
-      const addonIdx = orderItems.findIndex(i => i.product._id === target.product._id && i.itemStatus === 'addon');
+      const addonIdx = orderItems.findIndex(i => lineKeyOf(i) === lineKeyOf(target) && i.itemStatus === 'addon');
       if (addonIdx !== -1) {
         const newItems = [...orderItems];
         newItems[addonIdx] = { ...newItems[addonIdx], quantity: newItems[addonIdx].quantity + 1 };
@@ -462,6 +679,7 @@ const fetchLastOrder = useCallback(async () => {
       } else {
         const addonItem: OrderItem = {
           product: target.product,
+          ...normalizeLineOptions(target),
           quantity: 1,
           itemStatus: 'addon',
           localId: `local-${Date.now()}-${Math.random().toString(36).slice(2,8)}`
@@ -503,10 +721,10 @@ const fetchLastOrder = useCallback(async () => {
       newItems[idx] = { ...target, quantity: newQuantity };
 
       // Find existing removed entry for this product
-      const removedIdx = newItems.findIndex(i => i.product._id === target.product._id && i.itemStatus === 'removed');
+      const removedIdx = newItems.findIndex(i => lineKeyOf(i) === lineKeyOf(target) && i.itemStatus === 'removed');
 
       // Determine original submitted amount (fallback to prevQty + existing removed quantity)
-      const origSubmitted = originalSubmittedItems.find(o => o.product._id === target.product._id);
+      const origSubmitted = originalSubmittedItems.find(o => lineKeyOf(o) === lineKeyOf(target));
       const originalTotal = origSubmitted ? (origSubmitted.quantity || 0) : (prevQty + (removedIdx !== -1 ? (newItems[removedIdx].quantity || 0) : 0));
 
       if (removedIdx !== -1) {
@@ -521,10 +739,11 @@ const fetchLastOrder = useCallback(async () => {
         // create a removed entry with removed count
         const removedItem: OrderItem = {
           product: target.product,
+          ...normalizeLineOptions(target),
           quantity: removedDelta,
           itemStatus: 'removed',
           originalQuantity: originalTotal,
-          localId: `removed-${target.product._id}-${Date.now()}`,
+          localId: `removed-${lineKeyOf(target)}-${Date.now()}`,
         };
         newItems.push(removedItem);
       }
@@ -545,6 +764,70 @@ const fetchLastOrder = useCallback(async () => {
     setOrderItems(newItems);
   };
 
+  // Each tap moves an unsent line to the next course, then back to none
+  const handleCycleCourse = (localId: string) => {
+    setOrderItems(prev =>
+      prev.map(item => {
+        if (item.localId !== localId) return item;
+        const { course, ...rest } = item;
+        const next = nextCourse(course);
+        return next ? { ...rest, course: next } : rest;
+      })
+    );
+  };
+
+  // Apply modifiers/notes to an unsent line; if that makes it identical to
+  // another line of the same status, the two are folded into one row
+  const handleSaveLineOptions = (options: LineOptions) => {
+    const target = orderItems.find(i => i.localId === editingLineId);
+    setEditingLineId(null);
+    if (!target) return;
+
+    const updated: OrderItem = { ...target, modifiers: options.modifiers, notes: options.notes, seat: options.seat };
+    const twin = orderItems.find(
+      i => i.localId !== target.localId && i.itemStatus === target.itemStatus && lineKeyOf(i) === lineKeyOf(updated)
+    );
+    setOrderItems(
+      twin
+        ? orderItems
+            .filter(i => i.localId !== target.localId)
+            .map(i => (i.localId === twin.localId ? { ...i, quantity: i.quantity + target.quantity } : i))
+        : orderItems.map(i => (i.localId === target.localId ? updated : i))
+    );
+  };
+
+  const editingLine = orderItems.find(i => i.localId === editingLineId) ?? null;
+
+  // Net amount per seat, before bill adjustments and taxes; seat 0 collects
+  // the shared lines. Empty until a line has a seat.
+  const seatSubtotals = useMemo(() => {
+    const active = orderItems.filter(i => i.itemStatus !== 'removed' && i.quantity > 0);
+    if (!active.some(i => i.seat)) return [];
+    const totals = new Map<number, number>();
+    active.forEach(i => totals.set(i.seat ?? 0, (totals.get(i.seat ?? 0) ?? 0) + lineNetOf(i)));
+    return [...totals]
+      .map(([seat, amount]) => ({ seat, amount }))
+      .sort((a, b) => (a.seat || Infinity) - (b.seat || Infinity));
+  }, [orderItems]);
+
+  // With unsent changes the new count goes out with the KOT update; otherwise
+  // it is saved on the server's copy right away
+  const handleChangeCovers = async (value: number) => {
+    setCoversVisible(false);
+    setCovers(value);
+    if (!existingBillId || hasPendingChanges) return;
+    try {
+      const current = await fetchCurrentBill();
+      if (!current) return;
+      await api.updateBill(billToUpdateRequest(current, { covers: value }));
+      fetchLastOrder();
+    } catch (err: any) {
+      console.error('Error updating covers:', err);
+      if (isAuthError(err)) return;
+      Alert.alert('Failed to update guests', err.message || 'Unknown error');
+    }
+  };
+
   const getTotalItems = () => {
     // Exclude removed items from count
     return orderItems
@@ -553,95 +836,69 @@ const fetchLastOrder = useCallback(async () => {
   };
 
   const getItemTotal = (item: OrderItem) => {
-    const price = (item.product as any)?.price ? Number((item.product as any).price) : 0;
-    return price * item.quantity;
+    return lineNetOf(item);
   };
 
-  const getTotalOrderCost = () => {
+  // Subtotal net of line discounts; bill discount, service charge and taxes come after
+  const getTotalOrderCost = (items: OrderItem[] = orderItems) => {
     // Exclude removed items from total
-    return orderItems
+    return items
       .filter(item => item.itemStatus !== 'removed')
-      .reduce((total, item) => {
-        const price = (item.product as any)?.price ? Number((item.product as any).price) : 0;
-        return total + price * item.quantity;
-      }, 0);
+      .reduce((total, item) => total + lineNetOf(item), 0);
   };
 
-  // Compute tax amounts and payable amount for a given subtotal
-  const computeTaxAmounts = (subtotal: number) => {
-    const sgstAmount = (subtotal * (taxSettings.sgst || 0)) / 100;
-    const cgstAmount = (subtotal * (taxSettings.cgst || 0)) / 100;
-    const totalWithTax = subtotal + sgstAmount + cgstAmount;
-    const payableAmount = Math.floor(totalWithTax);
-    return { sgstAmount, cgstAmount, totalWithTax, payableAmount };
-  };
+  // Compute discount, service charge, tax amounts and payable amount for a given subtotal
+  const computeTaxAmounts = (lines: TaxLine[], adjustments: BillAdjustments = billAdjustments) =>
+    computeBillTotals(lines, taxSettings, adjustments);
 
-  const updateBillNumber = async (currentSequenceNumber?: number) => {
-    if (!apiUrl) return false;
-    try {
-      const token = await AsyncStorage.getItem('token');
-      // Use provided sequence number or fall back to state
-      const seqToUse = currentSequenceNumber !== undefined ? currentSequenceNumber : sequenceNumber;
-      console.log('Updating bill number sequence from:', seqToUse, 'to:', seqToUse + 1);
-      const response = await axios.put(
-        `${apiUrl}/api/billnumber/updateBillNumber`,
-        { number: seqToUse + 1 },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }
-      );
-      if (response.status === 200 || response.status === 201) {
-        console.log('Bill number sequence updated successfully');
-        // Immediately refetch to get the new bill number string and sequence from server
-        try {
-          const refreshed = await axios.get(`${apiUrl}/api/billnumber/getBillNumber`, {
-            headers: { Authorization: `Bearer ${token}` },
-          });
-          setBillNumber(refreshed.data.currentBillNumber);
-          setSequenceNumber(refreshed.data.number);
-          console.log('Refreshed bill number after update:', refreshed.data.currentBillNumber);
-        } catch (err) {
-          // Fallback: bump local sequence if refetch fails
-          setSequenceNumber(seqToUse + 1);
-        }
-        return true;
-      }
-      return false;
-    } catch (err) {
-      console.error('Error updating bill number:', err);
-      if ((err as any).response) {
-        console.error('Error response data:', (err as any).response.data);
-      }
-      return false;
+  // GST slab of a line: what the kitchen ticket was priced with, or the product's current slab
+  const taxOf = (item: OrderItem) => item.tax ?? getProductTax(item.product, taxSettings);
+
+  const getOrderTaxLines = (items: OrderItem[] = orderItems) =>
+    items
+      .filter(item => item.itemStatus !== 'removed')
+      .map(item => toTaxLine(lineNetOf(item), taxOf(item), taxSettings));
+
+  // Manager-approved discount on one line (only that row) or on the whole bill
+  const handleApplyDiscount = (discount: Discount | null) => {
+    const target = discountTarget;
+    setDiscountTarget(null);
+    if (!target) return;
+    if (target.kind === 'bill') {
+      setBillDiscount(discount);
+      return;
     }
+    setOrderItems(items =>
+      items.map(i => {
+        if (i.localId !== target.localId) return i;
+        const { discount: _previous, ...rest } = i;
+        return discount ? { ...rest, discount } : rest;
+      })
+    );
   };
 
+  const toggleServiceCharge = () => {
+    setServiceChargePercent(billAdjustments.serviceChargePercent ? 0 : taxSettings.serviceChargePercent || 0);
+  };
+
+  const discountLine = discountTarget?.kind === 'line' ? orderItems.find(i => i.localId === discountTarget.localId) : undefined;
+
+  // The number is taken from the server's sequence there and then; a bill
+  // that is not created after all leaves a gap rather than a duplicate
   const fetchBillNumber = async () => {
     if (!apiUrl) return null;
     try {
       setBillNumberLoading(true);
-      const token = await AsyncStorage.getItem('token');
-      console.log('Fetching bill number from:', `${apiUrl}/api/billnumber/getBillNumber`);
-      const response = await axios.get(`${apiUrl}/api/billnumber/getBillNumber`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-      console.log('Bill number API response:', JSON.stringify(response.data, null, 2));
-      const billNumber = response.data.currentBillNumber;
-      const seqNumber = response.data.number;
-      console.log('Fetched bill number:', billNumber, 'Sequence:', seqNumber);
+      console.log('Allocating bill number...');
+      const response = await api.allocateBillNumber();
+      console.log('Bill number API response:', JSON.stringify(response, null, 2));
+      const billNumber = response.currentBillNumber;
       setBillNumber(billNumber);
-      setSequenceNumber(seqNumber);
-      // Return both bill number and sequence number
-      return { billNumber, sequenceNumber: seqNumber };
+      return { billNumber };
     } catch (err) {
       console.error('Error fetching bill number:', err);
-      if ((err as any).response) {
-        console.error('Error response data:', (err as any).response.data);
+      if (err instanceof ApiError && err.data) {
+        console.error('Error response data:', err.data);
       }
       return null;
     } finally {
@@ -661,10 +918,10 @@ const fetchLastOrder = useCallback(async () => {
           onPress: () => {
             setOrderItems([]);
             setOriginalSubmittedItems([]);
+            resetAdjustments();
             // Reset bill number if it was fetched
             if (!existingBillId) {
               setBillNumber(null);
-              setSequenceNumber(0);
             }
           },
         },
@@ -672,6 +929,37 @@ const fetchLastOrder = useCallback(async () => {
     );
   };
 
+  // Courses waiting on the server copy of the bill
+  const heldCourses = useMemo(() => getHeldCourses(lastFetchedBill?.items || []), [lastFetchedBill]);
+
+  // Send a held course to the kitchen. Works on the server's latest copy, so
+  // local edits have to be sent first.
+  const handleFireCourse = async (course: Course) => {
+    if (!hasOrderTarget || !existingBillId) return;
+    if (hasPendingChanges) {
+      Alert.alert('Unsent Changes', 'Update the KOT before firing a course.');
+      return;
+    }
+    try {
+      setLoading(true);
+      const current = await fetchCurrentBill();
+      if (!current || current._id !== existingBillId) {
+        throw new Error('Could not fetch current bill');
+      }
+      const userId = await loadCaptainId();
+      const items = fireCourse(current.items, course, userId || null);
+      await api.updateBill(billToUpdateRequest(current, { items }));
+      sendKot(current.items, items, current.billNumber ?? null, `FIRE ${COURSE_LABELS[course].toUpperCase()}`);
+      await fetchLastOrder();
+    } catch (err: any) {
+      console.error('Error firing course:', err);
+      if (isAuthError(err)) return;
+      Alert.alert('Failed to fire course', err.message || 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleCancelOrder = async () => {
     if (isLoadingIp) {
       return;
@@ -697,34 +985,24 @@ const fetchLastOrder = useCallback(async () => {
           onPress: async () => {
             try {
               setLoading(true);
-              const token = await AsyncStorage.getItem('token');
-              
               // Update bill status to cancelled using updateStatus endpoint
-              const response = await axios.put(
-                `${apiUrl}/api/bill/updateStatus`,
-                {
-                  _id: existingBillId,
-                  status: 'cancelled'
-                },
-                {
-                  headers: {
-                    Authorization: `Bearer ${token}`,
-                  },
-                }
-              );
-
-              if (response.status === 200 || response.status === 201) {
-                Alert.alert('Success', 'Order cancelled successfully!');
-                // Clear order list
-                setOrderItems([]);
-                setOriginalSubmittedItems([]);
-                setBillNumber(null);
-                setSequenceNumber(0);
-                setExistingBillId(null);
-              }
+              await api.updateBillStatus({
+                _id: existingBillId,
+                status: 'cancelled'
+              });
+
+              Alert.alert('Success', 'Order cancelled successfully!');
+              // Clear order list
+              setOrderItems([]);
+              setOriginalSubmittedItems([]);
+              setBillNumber(null);
+              setExistingBillId(null);
+              resetAdjustments();
+              if (!tableNumber) router.setParams({ tokenNumber: '', orderType: '', billId: '' });
             } catch (err: any) {
               console.error('Error cancelling order:', err);
-              Alert.alert('Failed to cancel order', err.response?.data?.message || err.message || 'Unknown error');
+              if (isAuthError(err)) return;
+              Alert.alert('Failed to cancel order', err.message || 'Unknown error');
             } finally {
               setLoading(false);
             }
@@ -743,7 +1021,7 @@ const fetchLastOrder = useCallback(async () => {
       Alert.alert('Error', 'Server IP not configured. Please login first.');
       return;
     }
-    if (!tableNumber) {
+    if (!hasOrderTarget) {
       Alert.alert('Select Table', 'Please select a table before completing order.');
       return;
     }
@@ -751,105 +1029,264 @@ const fetchLastOrder = useCallback(async () => {
       Alert.alert('Empty Order', 'Add items to the order before completing.');
       return;
     }
+    if (existingBillId && hasPendingChanges) {
+      Alert.alert('Unsent Changes', 'Update the KOT before completing so the bill includes every item.');
+      return;
+    }
+    setPaymentVisible(true);
+  };
+
+  // Print the kitchen's copy of what changed. The order is already saved, so a
+  // printer problem is only reported, never treated as a failed submission.
+  const sendKot = (before: BillItem[], after: BillItem[], kotBillNumber: string | null, note?: string) => {
+    if (!orderLabel) return;
+    printKot({ before, after, orderLabel, billNumber: kotBillNumber, note }).catch((err) => {
+      console.warn('KOT print failed:', err);
+      Alert.alert('KOT Not Printed', `${err?.message || 'Unable to reach the kitchen printer.'} Please tell the kitchen.`);
+    });
+  };
+
+  // Amount the payment sheet collects: the server's figure for a running bill
+  const settlementAmount = existingBillId && lastFetchedBill ? lastFetchedBill.payableAmount : null;
+
+  const completeOrder = async (tenders: BillPayment[]) => {
+    if (!apiUrl || !hasOrderTarget) return;
 
     try {
       setLoading(true);
-      const token = await AsyncStorage.getItem('token');
-      let response;
-
-      // If there's an existing bill, update its status instead of creating a new one
+      // If there's an existing bill, settle it instead of creating a new one
       if (existingBillId) {
-        console.log('Complete Order: Updating existing bill status to completed');
-        response = await axios.put(
-          `${apiUrl}/api/bill/updateStatus`,
-          {
-            _id: existingBillId,
-            status: 'completed'
-          },
-          {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          }
-        );
+        console.log('Complete Order: Settling existing bill');
+        const currentBill = await fetchCurrentBill();
+        if (!currentBill || currentBill._id !== existingBillId) {
+          throw new Error('Could not fetch current bill');
+        }
+        // Someone changed the bill while the sheet was open; collect the new amount instead
+        if (settlementAmount !== null && currentBill.payableAmount !== settlementAmount) {
+          setPaymentVisible(false);
+          Alert.alert('Bill Changed', 'This bill was updated on another device. Please review the new total and try again.');
+          await fetchLastOrder();
+          return;
+        }
+        const settlement = {
+          ...toPaymentFields(tenders, currentBill.payableAmount),
+          status: 'completed' as const,
+        };
+        const res = await api.updateBill(billToUpdateRequest(currentBill, settlement));
+        setPreviewBill(res?.data ?? { ...currentBill, ...settlement });
       } else {
         // New order - fetch bill number and create it
         console.log('Complete Order: Fetching bill number for new order...');
         const fetchedBillData = await fetchBillNumber();
         if (!fetchedBillData || !fetchedBillData.billNumber) {
-          Alert.alert('Error', 'Failed to fetch bill number. Please try again.');
+          if (!isSessionExpired()) Alert.alert('Error', 'Failed to fetch bill number. Please try again.');
           setLoading(false);
           return;
         }
         const fetchedBillNumber = fetchedBillData.billNumber;
-        const fetchedSequenceNumber = fetchedBillData.sequenceNumber;
         console.log('Complete Order: Fetched bill number:', fetchedBillNumber);
-        console.log('Complete Order: Fetched sequence number:', fetchedSequenceNumber);
-
-        const sanitizedItems = orderItems.map((item) => {
-          const price = (item.product as any)?.price ? Number((item.product as any).price) : 0;
-          return {
-            productId: item.product._id,
-            name: item.product.name,
-            quantity: item.quantity,
-            price: price,
-            subtotal: price * item.quantity,
-            Basequantity: 1,
-          };
-        });
 
-        const totalAmount = getTotalOrderCost();
-          const { sgstAmount, cgstAmount, totalWithTax, payableAmount } = computeTaxAmounts(totalAmount);
-          const billData = {
-            billNumber: fetchedBillNumber,
-            paymentMethod: 'cash',
-            status: 'completed', // Directly set as completed
-            orderType: 'dine-in',
-            tableNumber: tableNumber,
-            table: tableNumber,
-            items: sanitizedItems,
-            totalAmount: totalAmount,
-            cgst: cgstAmount,
-            sgst: sgstAmount,
-            payableAmount: payableAmount,
-            date: new Date().toISOString(),
-          };
+        // Directly set as completed
+        const newBill = buildNewBillData(fetchedBillNumber);
+        const billData: CreateBillRequest = {
+          ...newBill,
+          ...(covers ? { covers } : {}),
+          ...toPaymentFields(tenders, newBill.payableAmount),
+          status: 'completed',
+        };
 
         console.log('Complete Order: Creating new bill with status completed:', JSON.stringify(billData, null, 2));
         console.log('Complete Order: Bill number being submitted:', fetchedBillNumber);
 
-        response = await axios.post(`${apiUrl}/api/bill/create`, billData, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        });
-
-        // Only update bill number sequence for new orders
-        if (response.status === 200 || response.status === 201) {
-          console.log('Complete Order: Updating bill number sequence...');
-          await updateBillNumber(fetchedSequenceNumber);
-        }
+        const res = await api.createBill(billData);
+        sendKot([], billData.items, fetchedBillNumber);
+        setPreviewBill(res?.data ?? { ...billData, _id: '', billNumber: fetchedBillNumber, tableNumber: tableNumber ?? undefined, table: tableNumber ?? undefined });
       }
 
-      if (response.status === 200 || response.status === 201) {
-        Alert.alert('Success', 'Order completed successfully!');
-        
-        // Clear order list so new order can be made
-        setOrderItems([]);
-        setOriginalSubmittedItems([]);
-        setBillNumber(null);
-        setSequenceNumber(0);
-        setExistingBillId(null);
-      }
+      // The bill preview that opens now confirms the order was completed
+      setPaymentVisible(false);
+      
+      // Clear order list so new order can be made
+      setOrderItems([]);
+      setOriginalSubmittedItems([]);
+      setBillNumber(null);
+      setExistingBillId(null);
+      resetAdjustments();
+      // The token is used up; the screen goes back to having no order
+      if (!tableNumber) router.setParams({ tokenNumber: '', orderType: '', billId: '' });
     } catch (err: any) {
       console.error('Error completing order:', err);
-      Alert.alert('Failed to complete order', err.response?.data?.message || err.message || 'Unknown error');
+      if (isAuthError(err)) return;
+      Alert.alert('Failed to complete order', err.message || 'Unknown error');
     } finally {
       setLoading(false);
     }
   };
 
+  // Lines that can be split between guests, in the order the split modal lists them
+  // Flat line discounts become percentages so a shared line's discount is shared too
+  const splittableItems = useMemo(
+    () =>
+      orderItems
+        .filter(item => item.itemStatus !== 'removed' && item.quantity > 0)
+        .map(item =>
+          item.discount ? { ...item, discount: toPercentDiscount(item.discount, unitPriceOf(item) * item.quantity) } : item
+        ),
+    [orderItems]
+  );
+  const splitModalLines = useMemo<SplitLine[]>(
+    () =>
+      splittableItems.map((item, idx) => {
+        const options = describeLineOptions(item);
+        return {
+          key: item.localId ?? `${lineKeyOf(item)}-${idx}`,
+          name: options ? `${item.product.name} (${options})` : item.product.name,
+          quantity: item.quantity,
+          unitPrice: lineNetOf(item) / item.quantity,
+        };
+      }),
+    [splittableItems]
+  );
+
+  // Bill adjustments for one guest's share: a flat bill discount is shared pro rata
+  const getShareAdjustments = (): BillAdjustments => ({
+    ...billAdjustments,
+    discount: billDiscount ? toPercentDiscount(billDiscount, getTotalOrderCost(splittableItems)) : null,
+  });
+
+  const getSplitPayable = (lines: SplitLine[]) =>
+    computeTaxAmounts(
+      lines.map(line => {
+        const item = splittableItems[splitModalLines.findIndex(l => l.key === line.key)];
+        return toTaxLine(line.unitPrice * line.quantity, item ? taxOf(item) : {}, taxSettings);
+      }),
+      getShareAdjustments()
+    ).payableAmount;
+
+  const handleOpenSplit = () => {
+    if (!tableNumber || splittableItems.length === 0) return;
+    if (existingBillId && hasPendingChanges) {
+      Alert.alert('Unsent Changes', 'Update the KOT before splitting the bill so the kitchen and the bills match.');
+      return;
+    }
+    setSplitVisible(true);
+  };
+
+  // Every split bill is created (and the running bill cancelled) before any
+  // payment is taken, so a failure leaves the table with its original order;
+  // the bills are then paid one by one through the payment sheet
+  const handleSplitBill = async (guests: number, assignment: number[][]) => {
+    if (!apiUrl || !tableNumber) return;
+    const shares = splitLines(splittableItems, assignment, guests).filter(share => share.length > 0);
+    if (shares.length === 0) return;
+
+    setSplitting(true);
+    try {
+      const bills = await createSplitBills(
+        shares.map(share => buildNewBillData(null, share, getShareAdjustments())),
+        existingBillId
+      );
+      // An order that was never sent is news to the kitchen, like a new order completed directly
+      if (!existingBillId) bills.forEach(bill => sendKot([], bill.items, bill.billNumber));
+
+      setSplitVisible(false);
+      setOrderItems([]);
+      setOriginalSubmittedItems([]);
+      setBillNumber(null);
+      setExistingBillId(null);
+      setLastFetchedBill(null);
+      resetAdjustments();
+      setSplitSettlement({ bills, paid: 0 });
+    } catch (err: any) {
+      console.error('Error splitting bill:', err);
+      if (isAuthError(err)) return;
+      Alert.alert('Failed to split bill', `${err.message || 'Unknown error'}. The original order was left open.`);
+    } finally {
+      setSplitting(false);
+    }
+  };
+
+  const handleSplitPayment = async (tenders: BillPayment[]) => {
+    if (!splitSettlement) return;
+    const { bills, paid } = splitSettlement;
+
+    setSplitting(true);
+    try {
+      await settleSplitBill(bills[paid], tenders);
+    } catch (err: any) {
+      console.error('Error settling split bill:', err);
+      if (!isAuthError(err)) Alert.alert('Payment Not Saved', `${err.message || 'Unknown error'}. Please try again.`);
+      return;
+    } finally {
+      setSplitting(false);
+    }
+
+    if (paid + 1 < bills.length) {
+      setSplitSettlement({ bills, paid: paid + 1 });
+      return;
+    }
+    setSplitSettlement(null);
+    Alert.alert('Bill Split', `All ${bills.length} split bills for ${orderLabel} are paid.`);
+  };
+
+  // Bills not paid yet stay open on the table and are settled from there later
+  const handleCancelSplitPayment = () => {
+    if (!splitSettlement) return;
+    const unpaid = splitSettlement.bills.length - splitSettlement.paid;
+    setSplitSettlement(null);
+    Alert.alert(
+      'Split Bills Open',
+      `${unpaid} of ${splitSettlement.bills.length} split bills are not paid yet. They stay open on ${orderLabel}.`
+    );
+    fetchLastOrder();
+  };
+
+  const handleOpenTableAction = async (action: TableAction) => {
+    if (!tableNumber || !existingBillId) return;
+    if (hasPendingChanges) {
+      Alert.alert('Unsent Changes', 'Update the KOT before moving or merging this table.');
+      return;
+    }
+    setTableAction(action);
+    setTableActionBusy(true);
+    try {
+      const { tables, statuses } = await fetchFloorStatuses();
+      setFloor({ tables, occupied: new Set(statuses.keys()) });
+    } catch (err: any) {
+      console.error('Error loading tables:', err);
+      setTableAction(null);
+      if (!isAuthError(err)) Alert.alert('Failed to load tables', err.message || 'Unknown error');
+    } finally {
+      setTableActionBusy(false);
+    }
+  };
+
+  const handleTableActionTarget = async (target: number) => {
+    if (!tableNumber || !tableAction) return;
+    setTableActionBusy(true);
+    try {
+      if (tableAction === 'move') {
+        await moveTableBill(tableNumber, target);
+        setTableAction(null);
+        Alert.alert('Table Moved', `This order is now on ${getTableName(floorPlan, target)}.`);
+        // Follow the bill to its new table; the table change effect reloads it
+        router.setParams({ tableNumber: target.toString() });
+      } else {
+        await mergeTableBills(target, tableNumber, taxSettings);
+        setTableAction(null);
+        Alert.alert('Tables Merged', `${getTableName(floorPlan, target)}'s order was added to this table.`);
+        await fetchLastOrder();
+      }
+    } catch (err: any) {
+      console.error(`Error during table ${tableAction}:`, err);
+      if (!isAuthError(err)) {
+        Alert.alert(tableAction === 'move' ? 'Failed to move table' : 'Failed to merge tables', err.message || 'Unknown error');
+      }
+    } finally {
+      setTableActionBusy(false);
+    }
+  };
+
   const submitKOT = async () => {
 
     
@@ -861,7 +1298,7 @@ const fetchLastOrder = useCallback(async () => {
       Alert.alert('Error', 'Server IP not configured. Please login first.');
       return;
     }
-    if (!tableNumber) {
+    if (!hasOrderTarget) {
       Alert.alert('Select Table', 'Please select a table before submitting KOT.');
       return;
     }
@@ -871,92 +1308,186 @@ const fetchLastOrder = useCallback(async () => {
     }
     try {
       setLoading(true);
+      // If there's an existing bill, we should not create a new one
+      // The Update KOT button should handle updating existing bills
+      if (existingBillId) {
+        Alert.alert('Error', 'An order already exists for this table. Please use "Update KOT" to modify it.');
+        return;
+      }
       // Fetch bill number only when submitting to KOT
       console.log('Submit KOT: Fetching bill number...');
       const fetchedBillData = await fetchBillNumber();
-      console.log(fetchedBillData,"my logs");
       if (!fetchedBillData || !fetchedBillData.billNumber) {
-        Alert.alert('Error', 'Failed to fetch bill number. Please try again.');
+        // Bill number lookup fails first when the Wi-Fi is down; queue the order
+        // instead of losing it. The outbox allocates the bill number on replay.
+        if (!(await checkServerHealth(apiUrl))) {
+          await queueNewOrderOffline(buildKotBillData(null));
+          return;
+        }
+        if (!isSessionExpired()) Alert.alert('Error', 'Failed to fetch bill number. Please try again.');
         setLoading(false);
         return;
       }
       const fetchedBillNumber = fetchedBillData.billNumber;
-      const fetchedSequenceNumber = fetchedBillData.sequenceNumber;
- 
-      const sanitizedItems = orderItems.map((item) => {
-        const price = (item.product as any)?.price ? Number((item.product as any).price) : 0;
-        return {
-          productId: item.product._id,
-          name: item.product.name,
-          quantity: item.quantity,
-          price: price,
-          subtotal: price * item.quantity,
-          Basequantity: 1,
-        };
-      });
+      const billData = buildKotBillData(fetchedBillNumber);
 
-      const totalAmount = getTotalOrderCost();
-      const { sgstAmount, cgstAmount, totalWithTax, payableAmount } = computeTaxAmounts(totalAmount);
-      const billData = {
-        billNumber: fetchedBillNumber,
-        paymentMethod: 'cash',
-        status: 'pending',
-        orderType: 'dine-in',
-        tableNumber: tableNumber,
-        table: tableNumber,
-        items: sanitizedItems,
-        totalAmount: totalAmount,
-        cgst: cgstAmount,
-        sgst: sgstAmount,
-        payableAmount: payableAmount,
-        date: new Date().toISOString(),
-      };
+      // New order - create it
+      try {
+        const res = await api.createBill(billData);
+        sendKot([], billData.items, fetchedBillNumber);
+        if (tokenNumber) {
+          // From now on the order is opened by its bill id
+          const createdId = res?.data?._id ?? (await fetchOpenOrders())?.find(b => b.billNumber === fetchedBillNumber)?._id;
+          if (createdId) router.setParams({ billId: createdId });
+        }
+      } catch (createErr) {
+        if (isNetworkError(createErr)) {
+          await queueNewOrderOffline(billData);
+          return;
+        }
+        throw createErr;
+      }
 
-      const token = await AsyncStorage.getItem('token');
+      Alert.alert('Success', 'KOT submitted successfully!');
 
-      // If there's an existing bill, we should not create a new one
-      // The Update KOT button should handle updating existing bills
-      if (existingBillId) {
-        Alert.alert('Error', 'An order already exists for this table. Please use "Update KOT" to modify it.');
-        setLoading(false);
-        return;
-      }
+      // Mark all items as original and store them
+      const originalItems = orderItems.map(item => ({
+        ...item,
+        itemStatus: 'original' as ItemStatus
+      }));
+      setOrderItems(originalItems);
+      setOriginalSubmittedItems(originalItems);
       
-      // New order - create it
-      const response = await axios.post(`${apiUrl}/api/bill/create`, billData, {
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (response.status === 200 || response.status === 201) {
-        Alert.alert('Success', 'KOT submitted successfully!');
-        
-        // Update bill number sequence using the sequence number we just fetched
-        console.log('Submit KOT: Updating bill number sequence...');
-        await updateBillNumber(fetchedSequenceNumber);
-        
-        // Mark all items as original and store them
-        const originalItems = orderItems.map(item => ({
-          ...item,
-          itemStatus: 'original' as ItemStatus
-        }));
-        setOrderItems(originalItems);
-        setOriginalSubmittedItems(originalItems);
-        
-        // Refetch the order to show the submitted order
-        await fetchLastOrder();
-      }
+      // Refetch the order to show the submitted order; a token order refetches
+      // once its bill id param is set
+      if (tableNumber) await fetchLastOrder();
     } catch (err: any) {
       console.error('Error creating bill:', err);
-      Alert.alert('Failed to create bill', err.response?.data?.message || err.message || 'Unknown error');
+      if (isAuthError(err)) return;
+      Alert.alert('Failed to create bill', err.message || 'Unknown error');
     } finally {
       setLoading(false);
     }
   };
 
-  const updateKOT = async () => {
+  // Payload for /api/bill/create; billNumber is null when the order is queued offline.
+  // `items` defaults to the whole order; a split bill passes one guest's share.
+  // Covers are left to the callers: they belong to the whole table, not a share.
+  const buildNewBillData = (
+    billNumberToUse: string | null,
+    items: OrderItem[] = orderItems,
+    adjustments: BillAdjustments = billAdjustments
+  ): CreateBillRequest => {
+    const sanitizedItems = items.map((item) => {
+      const price = unitPriceOf(item);
+      return {
+        productId: item.product._id,
+        name: item.product.name,
+        quantity: item.quantity,
+        price: price,
+        subtotal: lineNetOf(item),
+        Basequantity: 1,
+        ...normalizeLineOptions(item),
+        ...taxOf(item),
+        station: stationOf(item.product),
+        ...(item.course ? { course: item.course } : {}),
+        ...(item.discount
+          ? { discount: item.discount, discountAmount: getDiscountAmount(price * item.quantity, item.discount) }
+          : {}),
+      };
+    });
+
+    const totalAmount = getTotalOrderCost(items);
+    const totals = computeTaxAmounts(getOrderTaxLines(items), adjustments);
+    const { sgstAmount, cgstAmount, payableAmount } = totals;
+    return {
+      billNumber: billNumberToUse,
+      paymentMethod: 'cash',
+      status: 'pending',
+      orderType,
+      ...(captain ? { captainId: captain.id, captainName: captain.name } : {}),
+      tableNumber: tableNumber,
+      table: tableNumber,
+      ...(tokenNumber
+        ? {
+            tokenNumber,
+            customerName: customer?.name || '',
+            customerPhone: customer?.phone || '',
+            ...(orderType === 'delivery' ? { customerAddress: customer?.address || '' } : {}),
+          }
+        : {}),
+      items: sanitizedItems,
+      totalAmount: totalAmount,
+      ...toAdjustmentFields(adjustments, totals),
+      cgst: cgstAmount,
+      sgst: sgstAmount,
+      payableAmount: payableAmount,
+      date: new Date().toISOString(),
+    };
+  };
+
+  // The split bill at the payment sheet
+  const splitBillDue = splitSettlement ? splitSettlement.bills[splitSettlement.paid] : null;
+
+  // A new order as sent from the KOT button: later courses wait to be fired
+  const buildKotBillData = (billNumberToUse: string | null): CreateBillRequest => {
+    const bill = buildNewBillData(billNumberToUse);
+    return { ...bill, ...(covers ? { covers } : {}), items: holdLaterCourses(bill.items, captain?.id ?? null) };
+  };
+
+  // Only table orders can wait in the outbox
+  const queueNewOrderOffline = async (billData: CreateBillRequest) => {
+    if (!tableNumber) {
+      Alert.alert('No Connection', `${orderLabel} was not sent. ${OFFLINE_TAKEAWAY_MESSAGE}`);
+      return;
+    }
+    await enqueueOutboxEntry({ kind: 'create', tableNumber, payload: billData });
+    Alert.alert(
+      'Saved Offline',
+      `No connection to the server. The order for ${orderLabel} is saved and will be sent automatically when the connection returns.`
+    );
+  };
+
+  const openMerge = (base: Bill, current: Bill, items: OrderItem[]) => {
+    setMergeState({ base, current, items, rows: buildMergeRows(base, current, onScreenQuantities(items)) });
+  };
+
+  const handleMergeAndUpdate = async () => {
+    if (!mergeState) return;
+    const { base, current, items } = mergeState;
+    const { items: rebased, originals } = rebaseOrderItems(items, base, current);
+    // Our bill discount / service charge edit is kept; untouched ones follow theirs
+    const adjustments = isAdjustmentChanged(billAdjustments, base) ? billAdjustments : getBillAdjustments(current);
+    setMergeState(null);
+    setOrderItems(rebased);
+    setOriginalSubmittedItems(originals);
+    setLastFetchedBill(current);
+    setBillDiscount(adjustments.discount ?? null);
+    setServiceChargePercent(adjustments.serviceChargePercent ?? 0);
+    // Our edits net out to nothing; sending an update with no changes would
+    // mark the bill as printed
+    const discountEdited = rebased.some(
+      r => r.itemStatus === 'original' && !isSameDiscount(r.discount, originals.find(o => o.localId === r.localId)?.discount)
+    );
+    if (mergeState.rows.every(r => r.merged === r.theirs) && !discountEdited && !isAdjustmentChanged(adjustments, current)) {
+      Alert.alert('Up to Date', `There is nothing left to send for ${orderLabel}.`);
+      return;
+    }
+    await updateKOT({ items: rebased, originals, base: current, adjustments });
+  };
+
+  const handleDiscardMine = async () => {
+    setMergeState(null);
+    setHasPendingChanges(false);
+    await fetchLastOrder();
+  };
+
+  const updateKOT = async (snapshot?: KotSnapshot) => {
+    const items = snapshot?.items ?? orderItems;
+    const submittedItems = snapshot?.originals ?? originalSubmittedItems;
+    const baseBill = snapshot ? snapshot.base : lastFetchedBill;
+    const onScreenAdjustments = snapshot?.adjustments ?? billAdjustments;
+
     // Wait for IP to finish loading before checking
     if (isLoadingIp) {
       return;
@@ -965,7 +1496,7 @@ const fetchLastOrder = useCallback(async () => {
       Alert.alert('Error', 'Server IP not configured. Please login first.');
       return;
     }
-    if (!tableNumber) {
+    if (!hasOrderTarget) {
       Alert.alert('Select Table', 'Please select a table before updating KOT.');
       return;
     }
@@ -976,179 +1507,81 @@ const fetchLastOrder = useCallback(async () => {
 
     try {
       setLoading(true);
-      const token = await AsyncStorage.getItem('token');
-      const userId = await AsyncStorage.getItem('userId'); // Get userId if stored
+      const userId = await loadCaptainId();
 
       // Fetch current bill to get existing items
-      const billResponse = await axios.post(
-        `${apiUrl}/api/bill/getTableStatus`,
-        { tableNumber },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }
-      );
-
-      if (billResponse.data.status !== 'success' || !billResponse.data.data) {
-        throw new Error('Could not fetch current bill');
-      }
-
-      const currentBill = billResponse.data.data;
-
-      // Identify added items (addons)
-      const addedItems = orderItems
-        .filter(item => item.itemStatus === 'addon' && item.quantity > 0)
-        .map((item) => {
-          const price = (item.product as any)?.price ? Number((item.product as any).price) : 0;
-          return {
-            productId: item.product._id,
-            name: item.product.name,
-            quantity: item.quantity,
-            price: price,
-          };
-        });
-
-      // Identify edited items (original items with quantity changes or removed)
-      // We'll map desired quantities per product from the client and then
-      // distribute those desired quantities across the server-side bill items
-      // for that product so we update the exact server item ids (deterministic).
-      const editedItems: Array<{
-        itemId: string;
-        newQuantity: number;
-        changeType: 'edit' | 'canceled';
-      }> = [];
-
-      // Build desired quantity map per product from client state
-      const desiredByProduct = new Map<string, number>();
-      orderItems.forEach(oi => {
-        const pid = oi.product._id;
-        if (oi.itemStatus === 'original' || !oi.itemStatus) {
-          desiredByProduct.set(pid, oi.quantity || 0);
-        } else if (oi.itemStatus === 'removed') {
-          // If there's a removed entry but no explicit original entry, derive remaining from originalSubmittedItems
-          const orig = orderItems.find(i => i.product._id === pid && (i.itemStatus === 'original' || !i.itemStatus));
-          if (orig) {
-            desiredByProduct.set(pid, orig.quantity || 0);
-          } else {
-            const submitted = originalSubmittedItems.find(o => o.product._id === pid);
-            const remaining = Math.max(0, (submitted?.quantity || 0) - (oi.quantity || 0));
-            desiredByProduct.set(pid, remaining);
-          }
-        }
-      });
-
-      // Group server bill items by product
-      const serverItemsByProduct = new Map<string, any[]>();
-      currentBill.items.forEach((bi: any) => {
-        const pid = bi.productId?._id || bi.productId;
-        if (!pid) return;
-        if (!serverItemsByProduct.has(pid)) serverItemsByProduct.set(pid, []);
-        serverItemsByProduct.get(pid)!.push(bi);
-      });
-
-      // For each product present on the server, compute the new per-server-item quantities
-      serverItemsByProduct.forEach((serverItems, pid) => {
-        // Only consider active server items (skip already canceled)
-        const activeServerItems = serverItems.filter((s: any) => s.status !== 'canceled');
-        const desired = desiredByProduct.has(pid) ? desiredByProduct.get(pid)! : null;
+      let currentBill: Bill;
+      let offline = false;
+      try {
+        const fetched = await fetchCurrentBill();
 
-        // If desired is null, we still may not need to edit these items (no change)
-        if (desired === null) {
-          return;
+        if (!fetched) {
+          throw new Error('Could not fetch current bill');
         }
 
-        let remaining = desired;
-        // Distribute remaining desired quantity into existing server items
-        for (const sItem of activeServerItems) {
-          const origQty = sItem.quantity || 0;
-          const assign = Math.min(origQty, remaining);
-          if (assign !== origQty) {
-            editedItems.push({
-              itemId: sItem._id,
-              newQuantity: assign,
-              changeType: assign === 0 ? 'canceled' : 'edit',
-            });
-          }
-          remaining = Math.max(0, remaining - assign);
-        }
-        // If remaining > 0, those extra quantities will be handled as addedItems (addons) elsewhere
-      });
-
-      // Check if there are any changes
-      const isCompleteOrder = !addedItems.length && !editedItems.length;
-
-  console.debug('Update KOT: computed editedItems:', JSON.stringify(editedItems, null, 2));
-  // Map existing items with their updates (following web app logic)
-      const updatedExistingItems = currentBill.items.map((item: any) => {
-        const editedItem = editedItems.find((edit) => edit.itemId === item._id);
-        
-        if (editedItem) {
-          // Create new update record for the item
-          const newUpdate = {
-            changeType: editedItem.changeType,
-            quantity: Math.abs(editedItem.newQuantity - item.quantity),
-            timestamp: new Date().toISOString(),
-            updatedBy: userId || null,
-          };
-
-          // Return item with updates, maintaining zero quantity for canceled items
-          return {
-            ...item,
-            quantity: editedItem.newQuantity,
-            subtotal: editedItem.newQuantity * item.price,
-            updates: [...(item.updates || []), newUpdate],
-            // Keep canceled items with quantity 0
-            status: editedItem.changeType === 'canceled' ? 'canceled' : 'active',
-          };
+        currentBill = fetched;
+      } catch (fetchErr) {
+        // Offline: build the update on top of the last bill we fetched so it can be queued
+        if (!isNetworkError(fetchErr) || !baseBill || baseBill._id !== existingBillId) {
+          throw fetchErr;
         }
-        return item;
-      });
+        currentBill = baseBill;
+        offline = true;
+      }
 
-      // Keep canceled items in the array but with quantity 0
-      const processedItems = updatedExistingItems.map((item: any) =>
-        item.status === 'canceled' ? { ...item, quantity: 0, subtotal: 0 } : item
-      );
+      if (currentBill._id !== existingBillId) {
+        Alert.alert(
+          'Order Closed',
+          `The order for ${orderLabel} was closed or replaced by someone else. Reopen it to see the current order.`
+        );
+        return;
+      }
 
-      // Format new items with initial update records
-      const newItemsFormatted = addedItems.map((item) => {
-        const price = item.price;
-        return {
-          productId: {
-            _id: item.productId,
-            name: item.name,
-          },
-          quantity: item.quantity,
-          price: price,
-          subtotal: price * item.quantity,
-          status: 'active',
-          updates: [
-            {
-              changeType: 'add',
-              quantity: item.quantity,
-              timestamp: new Date().toISOString(),
-              updatedBy: userId || null,
-            },
-          ],
-        };
+      // Someone saved the bill after we loaded it: sending our full items
+      // array would silently drop their changes, so let the captain merge.
+      if (!offline && baseBill && isBillChanged(baseBill, currentBill)) {
+        openMerge(baseBill, currentBill, items);
+        return;
+      }
+
+      // Server items with our quantity and line discount edits, then the added lines
+      const { items: billItems, changed: itemsChanged } = buildKotUpdateItems({
+        items,
+        submittedItems,
+        currentBill,
+        userId,
+        taxOf,
+        stationOf,
       });
 
+      // Bill discount and service charge: ours if the captain changed them, otherwise the server's
+      const adjustmentsEdited = !baseBill || isAdjustmentChanged(onScreenAdjustments, baseBill);
+      const adjustments = adjustmentsEdited ? onScreenAdjustments : getBillAdjustments(currentBill);
+
+      // Check if there are any changes
+      const isCompleteOrder = !itemsChanged && !adjustmentsEdited;
+
       // Calculate total excluding canceled items (subtotal)
-      const newTotal = [...processedItems, ...newItemsFormatted].reduce(
-        (sum, item) => sum + (item.status !== 'canceled' ? item.quantity * item.price : 0),
+      const newTotal = billItems.reduce(
+        (sum, item) => sum + (item.status !== 'canceled' ? item.subtotal || 0 : 0),
         0
       );
 
-      // Compute taxes based on configured tax percentages
-      const { sgstAmount, cgstAmount, totalWithTax, payableAmount } = computeTaxAmounts(newTotal);
+      // Bill discount -> service charge -> taxes
+      const totals = computeTaxAmounts(
+        getBillItemTaxLines(billItems, taxSettings),
+        adjustments
+      );
+      const { sgstAmount, cgstAmount, totalWithTax, payableAmount } = totals;
+      const adjustmentFields = toAdjustmentFields(adjustments, totals);
 
       // Prepare update data (following web app structure)
-      const updateData = {
+      const updateData: UpdateBillRequest = {
         _id: existingBillId,
-        items: [...processedItems, ...newItemsFormatted],
-        // totalAmount is the subtotal (before taxes)
+        items: billItems,
+        // totalAmount is the subtotal (after line discounts, before bill adjustments and taxes)
         totalAmount: newTotal,
+        ...adjustmentFields,
         paymentMethod: currentBill.paymentMethod || 'cash',
         orderType: currentBill.orderType || 'dine-in',
         status: isCompleteOrder ? 'bill-printed' : currentBill.status,
@@ -1158,23 +1591,16 @@ const fetchLastOrder = useCallback(async () => {
         payableAmount: payableAmount,
         customerName: currentBill.customerName || '',
         customerPhone: currentBill.customerPhone || '',
+        ...(currentBill.customerAddress ? { customerAddress: currentBill.customerAddress } : {}),
+        ...(currentBill.tokenNumber != null ? { tokenNumber: currentBill.tokenNumber } : {}),
+        ...(covers || currentBill.covers ? { covers: covers || currentBill.covers } : {}),
+        ...(currentBill.captainId ? { captainId: currentBill.captainId, captainName: currentBill.captainName || '' } : {}),
         updatedAt: new Date().toISOString(),
       };
 
-      console.log('Update KOT: Sending update data:', JSON.stringify(updateData, null, 2));
-
-      const response = await axios.put(`${apiUrl}/api/bill/update`, updateData, {
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (response.status === 200 || response.status === 201) {
-        Alert.alert('Success', 'KOT updated successfully!');
-        
+      const applyLocalUpdate = () => {
         // Update local state - mark addons as original, keep removed items for display
-        const updatedItems = orderItems
+        const updatedItems = items
           .map(item => item.itemStatus === 'addon' ? { ...item, itemStatus: 'original' as ItemStatus } : item)
           // remove local 'removed' entries after update so UI shows only updated originals
           .filter(item => item.itemStatus !== 'removed');
@@ -1183,21 +1609,135 @@ const fetchLastOrder = useCallback(async () => {
         setOriginalSubmittedItems(updatedItems.filter(item => item.itemStatus === 'original' || !item.itemStatus));
         // Mark no pending changes now
         setHasPendingChanges(false);
-        // Suppress removed items from next fetch so UI reflects updated originals only
-        setSuppressRemovedAfterFetch(true);
-        // Refetch the order to sync with server (this will respect suppression)
-        await fetchLastOrder();
+      };
+
+      const queueUpdateOffline = async () => {
+        if (!tableNumber) {
+          Alert.alert('No Connection', `The update for ${orderLabel} was not sent. ${OFFLINE_TAKEAWAY_MESSAGE}`);
+          return;
+        }
+        await enqueueOutboxEntry({
+          kind: 'update',
+          tableNumber,
+          billId: existingBillId,
+          payload: updateData,
+          baseUpdatedAt: currentBill.updatedAt ?? null,
+        });
+        applyLocalUpdate();
+        // Further offline edits build on the queued items rather than the stale server copy
+        setLastFetchedBill({ ...currentBill, ...adjustmentFields, items: updateData.items });
+        Alert.alert(
+          'Saved Offline',
+          `No connection to the server. The KOT update for ${orderLabel} will be sent automatically when the connection returns.`
+        );
+      };
+
+      if (offline) {
+        await queueUpdateOffline();
+        return;
+      }
+
+      console.log('Update KOT: Sending update data:', JSON.stringify(updateData, null, 2));
+
+      try {
+        await api.updateBill(updateData);
+        sendKot(currentBill.items, updateData.items, currentBill.billNumber ?? null);
+      } catch (updateErr) {
+        if (isNetworkError(updateErr)) {
+          await queueUpdateOffline();
+          return;
+        }
+        // Servers that check versions themselves answer 409 for a stale update
+        if (toApiError(updateErr).status === 409 && baseBill) {
+          const latest = await fetchCurrentBill();
+          if (latest) {
+            openMerge(baseBill, latest, items);
+            return;
+          }
+        }
+        throw updateErr;
       }
+
+      Alert.alert('Success', 'KOT updated successfully!');
+      
+      applyLocalUpdate();
+      // Suppress removed items from next fetch so UI reflects updated originals only
+      setSuppressRemovedAfterFetch(true);
+      // Refetch the order to sync with server (this will respect suppression)
+      await fetchLastOrder();
     } catch (err: any) {
       console.error('Error updating KOT:', err);
-      Alert.alert('Failed to update KOT', err.response?.data?.message || err.message || 'Unknown error');
+      if (isAuthError(err)) return;
+      Alert.alert('Failed to update KOT', err.message || 'Unknown error');
     } finally {
       setLoading(false);
     }
   };
 
-  const subtotal = getTotalOrderCost();
-  const { sgstAmount, cgstAmount, totalWithTax, payableAmount } = computeTaxAmounts(subtotal);
+  // Course, where a line went and how far the kitchen has got with it. Unsent
+  // lines show where they will go (with several stations) and a course picker.
+  const renderKitchenInfo = (item: OrderItem) => {
+    const course = item.course ? COURSE_LABELS[item.course] : null;
+    if (item.itemStatus === 'original') {
+      const progress = item.prepStatus && item.prepStatus !== 'pending' ? item.prepStatus : null;
+      const text = [course, item.station && `Sent to ${item.station}`, progress && PREP_STATUS_LABELS[progress]]
+        .filter(Boolean)
+        .join(' · ');
+      if (!text) return null;
+      return (
+        <ThemedText style={[styles.stationText, progress && { color: PREP_STATUS_COLORS[progress] }]}>{text}</ThemedText>
+      );
+    }
+    return (
+      <>
+        {stationConfig.stations.length > 1 && (
+          <ThemedText style={[styles.stationText, styles.stationPending]}>To {stationOf(item.product)}</ThemedText>
+        )}
+        {item.localId && (
+          <TouchableOpacity onPress={() => handleCycleCourse(item.localId!)}>
+            <ThemedText style={styles.lineOptionsLink}>{course ? `Course: ${course}` : '+ Course'}</ThemedText>
+          </TouchableOpacity>
+        )}
+      </>
+    );
+  };
+
+  const renderProductCard = (product: Product, match?: ProductMatch) => (
+    <TouchableOpacity
+      key={product._id}
+      style={styles.productCard}
+      onPress={() => handleProductPress(product)}
+    >
+      {product.shortCode != null && (
+        <ThemedText style={[styles.shortCode, match?.codeMatched && styles.searchHighlight]}>
+          #{product.shortCode}
+        </ThemedText>
+      )}
+      <HighlightedText
+        text={product.name}
+        ranges={match?.nameRanges ?? []}
+        style={styles.productName}
+        highlightStyle={styles.searchHighlight}
+      />
+      <ThemedText style={styles.basequantity}>{product.Basequantity}</ThemedText>
+      <ThemedText style={styles.productCategory}>
+        ₹{(product as any)?.price ? Number((product as any).price).toFixed(2) : "N/A"}
+      </ThemedText>
+      {match && <ThemedText style={styles.basequantity}>{product.category?.name}</ThemedText>}
+      <View style={styles.addButton}>
+        <ThemedText style={styles.addButtonText}>
+          {hasConfigurableOptions(product) ? '+ Options' : '+ Add'}
+        </ThemedText>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const orderTaxLines = getOrderTaxLines();
+  const { subtotal, discountAmount, serviceCharge, taxBreakdown, roundOff, payableAmount } =
+    computeTaxAmounts(orderTaxLines);
+  const lineDiscountTotal = orderItems
+    .filter(item => item.itemStatus !== 'removed')
+    .reduce((sum, item) => sum + unitPriceOf(item) * item.quantity - lineNetOf(item), 0);
 
   return (
     <ThemedView style={styles.container}>
@@ -1222,18 +1762,105 @@ const fetchLastOrder = useCallback(async () => {
       {(loadingLastOrder && orderItems.length === 0) ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#007AFF" />
-          <ThemedText style={styles.loadingText}>Loading order for Table {tableNumber}...</ThemedText>
+          <ThemedText style={styles.loadingText}>Loading order for {orderLabel}...</ThemedText>
         </View>
       ) : (
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
         {/* Table Info */}
-        {tableNumber && (
+        {hasOrderTarget && (
           <View style={styles.tableInfoContainer}>
             <ThemedText style={styles.tableInfoText}>
-              Table {tableNumber} {existingBillId ? `(Order: ${billNumber})` : ''}
+              {orderLabel} {existingBillId ? `(Order: ${billNumber})` : ''}
+            </ThemedText>
+            {customer && (customer.name || customer.phone) && (
+              <ThemedText style={styles.customerText}>
+                {[customer.name, customer.phone].filter(Boolean).join(' · ')}
+              </ThemedText>
+            )}
+            {orderType === 'delivery' && !!customer?.address && (
+              <ThemedText style={styles.customerText}>{customer.address}</ThemedText>
+            )}
+            {tableNumber && (
+              <TouchableOpacity onPress={() => setCoversVisible(true)} disabled={loading}>
+                <ThemedText style={styles.lineOptionsLink}>
+                  {covers ? `${covers} ${covers === 1 ? 'guest' : 'guests'} · Edit` : '+ Guests'}
+                </ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+        {/* Offline outbox status for this table */}
+        {tableOutboxEntries.map((entry) => (
+          <View
+            key={entry.id}
+            style={[styles.syncBanner, entry.state === 'conflict' && styles.syncBannerConflict]}
+          >
+            <ThemedText style={styles.syncBannerText}>
+              {entry.state === 'conflict'
+                ? entry.lastError || 'This queued order conflicts with the server.'
+                : `${entry.kind === 'create' ? 'New order' : 'KOT update'} saved offline, waiting to sync`}
             </ThemedText>
+            <View style={styles.syncBannerActions}>
+              {entry.state === 'pending' ? (
+                <TouchableOpacity style={styles.syncBannerButton} onPress={() => syncNow()}>
+                  <ThemedText style={styles.syncBannerButtonText}>Retry now</ThemedText>
+                </TouchableOpacity>
+              ) : (
+                <>
+                  <TouchableOpacity
+                    style={styles.syncBannerButton}
+                    onPress={async () => {
+                      await removeOutboxEntry(entry.id);
+                      await fetchLastOrder();
+                    }}
+                  >
+                    <ThemedText style={styles.syncBannerButtonText}>Discard</ThemedText>
+                  </TouchableOpacity>
+                  {entry.conflict === 'changed' && (
+                    <TouchableOpacity
+                      style={styles.syncBannerButton}
+                      onPress={async () => {
+                        await forceOutboxEntry(entry.id);
+                        await syncNow();
+                      }}
+                    >
+                      <ThemedText style={styles.syncBannerButtonText}>Overwrite</ThemedText>
+                    </TouchableOpacity>
+                  )}
+                </>
+              )}
+            </View>
+          </View>
+        ))}
+        {/* Product Search */}
+        <View style={styles.searchSection}>
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search dishes or type a menu code"
+            placeholderTextColor="#999"
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            onSubmitEditing={handleSearchSubmit}
+            autoCorrect={false}
+            autoCapitalize="none"
+            returnKeyType="done"
+            clearButtonMode="while-editing"
+          />
+        </View>
+
+        {searchQuery.trim() !== '' && (
+          <View style={styles.productsSection}>
+            <ThemedText style={styles.sectionTitle}>Search Results</ThemedText>
+            {searchResults.length === 0 ? (
+              <ThemedText style={styles.emptyText}>{`No dishes match "${searchQuery.trim()}"`}</ThemedText>
+            ) : (
+              <View style={styles.productsGrid}>
+                {searchResults.map((match) => renderProductCard(match.product, match))}
+              </View>
+            )}
           </View>
         )}
+
         {/* Category Dropdown */}
         <View style={styles.categorySection}>
           <ThemedText style={styles.sectionTitle}>Select Category</ThemedText>
@@ -1299,22 +1926,7 @@ const fetchLastOrder = useCallback(async () => {
               <ThemedText style={styles.emptyText}>No products found in this category</ThemedText>
             ) : (
               <View style={styles.productsGrid}>
-                {filteredProducts.map((product) => (
-                  <TouchableOpacity
-                    key={product._id}
-                    style={styles.productCard}
-                    onPress={() => handleAddToOrder(product)}
-                  >
-                    <ThemedText style={styles.productName}>{product.name}</ThemedText>
-                    <ThemedText style={styles.basequantity}>{product.Basequantity}</ThemedText>
-                    <ThemedText style={styles.productCategory}>
-                      ₹{(product as any)?.price ? Number((product as any).price).toFixed(2) : "N/A"}
-                    </ThemedText>
-                    <View style={styles.addButton}>
-                      <ThemedText style={styles.addButtonText}>+ Add</ThemedText>
-                    </View>
-                  </TouchableOpacity>
-                ))}
+                {filteredProducts.map((product) => renderProductCard(product))}
               </View>
             )}
           </View>
@@ -1327,6 +1939,11 @@ const fetchLastOrder = useCallback(async () => {
               <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>
                 Order List ({getTotalItems()} items)
               </ThemedText>
+              {existingBillId && kitchenStatus && (
+                <View style={[styles.kitchenStatusPill, { backgroundColor: PREP_STATUS_COLORS[kitchenStatus] }]}>
+                  <ThemedText style={styles.kitchenStatusText}>{PREP_STATUS_LABELS[kitchenStatus]}</ThemedText>
+                </View>
+              )}
             </View>
             {/* Original Items Section */}
             {orderItems.some(item => item.itemStatus === 'original' || !item.itemStatus) && (
@@ -1345,8 +1962,32 @@ const fetchLastOrder = useCallback(async () => {
                       {item.product.Basequantity}
                     </ThemedText>
                     <ThemedText style={styles.orderItemPrice}>
-                      ₹{((item.product as any)?.price ? Number((item.product as any).price) : 0).toFixed(2)} each
+                      ₹{unitPriceOf(item).toFixed(2)} each
                     </ThemedText>
+                    {hasLineOptions(item) && (
+                      <ThemedText style={styles.lineOptionsText}>{describeLineOptions(item)}</ThemedText>
+                    )}
+                    {renderKitchenInfo(item)}
+                    {/* Instructions can only change before the line reaches the kitchen */}
+                    {!item.itemStatus && item.localId && (
+                      <TouchableOpacity onPress={() => setEditingLineId(item.localId!)}>
+                        <ThemedText style={styles.lineOptionsLink}>
+                          {hasLineOptions(item) ? 'Edit notes' : '+ Notes'}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    )}
+                    {item.discount && (
+                      <ThemedText style={styles.discountText}>
+                        {describeDiscount(item.discount)} · {item.discount.reason}
+                      </ThemedText>
+                    )}
+                    {item.localId && (
+                      <TouchableOpacity onPress={() => setDiscountTarget({ kind: 'line', localId: item.localId! })}>
+                        <ThemedText style={styles.lineOptionsLink}>
+                          {item.discount ? 'Edit discount' : '+ Discount'}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    )}
                   </View>
                   <View style={styles.orderItemRight}>
                     <View style={styles.quantityControls}>
@@ -1396,8 +2037,31 @@ const fetchLastOrder = useCallback(async () => {
                       {item.product.Basequantity}
                     </ThemedText>
                     <ThemedText style={styles.orderItemPrice}>
-                      ₹{((item.product as any)?.price ? Number((item.product as any).price) : 0).toFixed(2)} each
+                      ₹{unitPriceOf(item).toFixed(2)} each
                     </ThemedText>
+                    {hasLineOptions(item) && (
+                      <ThemedText style={styles.lineOptionsText}>{describeLineOptions(item)}</ThemedText>
+                    )}
+                    {renderKitchenInfo(item)}
+                    {item.localId && (
+                      <TouchableOpacity onPress={() => setEditingLineId(item.localId!)}>
+                        <ThemedText style={styles.lineOptionsLink}>
+                          {hasLineOptions(item) ? 'Edit notes' : '+ Notes'}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    )}
+                    {item.discount && (
+                      <ThemedText style={styles.discountText}>
+                        {describeDiscount(item.discount)} · {item.discount.reason}
+                      </ThemedText>
+                    )}
+                    {item.localId && (
+                      <TouchableOpacity onPress={() => setDiscountTarget({ kind: 'line', localId: item.localId! })}>
+                        <ThemedText style={styles.lineOptionsLink}>
+                          {item.discount ? 'Edit discount' : '+ Discount'}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    )}
                   </View>
                   <View style={styles.orderItemRight}>
                     <View style={styles.quantityControls}>
@@ -1449,8 +2113,13 @@ const fetchLastOrder = useCallback(async () => {
                       {item.product.Basequantity}
                     </ThemedText>
                     <ThemedText style={[styles.orderItemPrice, styles.removedItemText]}>
-                      ₹{((item.product as any)?.price ? Number((item.product as any).price) : 0).toFixed(2)} each
+                      ₹{unitPriceOf(item).toFixed(2)} each
                     </ThemedText>
+                    {hasLineOptions(item) && (
+                      <ThemedText style={[styles.lineOptionsText, styles.removedItemText]}>
+                        {describeLineOptions(item)}
+                      </ThemedText>
+                    )}
                     <ThemedText style={styles.removedLabel}>
                       Removed: {item.quantity || 0} / {item.originalQuantity || 0}
                     </ThemedText>
@@ -1484,16 +2153,70 @@ const fetchLastOrder = useCallback(async () => {
               <ThemedText type="defaultSemiBold" style={styles.totalCostLabel}>
                 Subtotal: ₹{subtotal.toFixed(2)}
               </ThemedText>
+              {lineDiscountTotal > 0 && (
+                <ThemedText style={styles.discountText}>Includes item discounts of ₹{lineDiscountTotal.toFixed(2)}</ThemedText>
+              )}
+              {seatSubtotals.map(({ seat, amount }) => (
+                <View key={seat} style={styles.seatSubtotalRow}>
+                  <ThemedText style={styles.taxSlabText}>{seat ? `Seat ${seat}` : 'Shared'}</ThemedText>
+                  <ThemedText style={styles.taxSlabText}>₹{amount.toFixed(2)}</ThemedText>
+                </View>
+              ))}
 
               <View style={{ marginTop: 6, width: '100%' }}>
-                <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
-                  <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>SGST ({taxSettings.sgst}%):</ThemedText>
-                  <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>₹{sgstAmount.toFixed(2)}</ThemedText>
-                </View>
-                <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 4 }}>
-                  <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>CGST ({taxSettings.cgst}%):</ThemedText>
-                  <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>₹{cgstAmount.toFixed(2)}</ThemedText>
+                <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <TouchableOpacity onPress={() => setDiscountTarget({ kind: 'bill' })}>
+                    <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>
+                      {billDiscount ? `Discount (${describeDiscount(billDiscount)}):` : 'Discount:'}
+                    </ThemedText>
+                    <ThemedText style={styles.lineOptionsLink}>
+                      {billDiscount ? `${billDiscount.reason} · Edit` : '+ Bill discount'}
+                    </ThemedText>
+                  </TouchableOpacity>
+                  <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>-₹{discountAmount.toFixed(2)}</ThemedText>
                 </View>
+                {!!taxSettings.serviceChargePercent && (
+                  <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 4 }}>
+                    <TouchableOpacity onPress={toggleServiceCharge}>
+                      <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>
+                        Service charge ({billAdjustments.serviceChargePercent || 0}%):
+                      </ThemedText>
+                      <ThemedText style={styles.lineOptionsLink}>
+                        {billAdjustments.serviceChargePercent ? 'Remove' : 'Add'}
+                      </ThemedText>
+                    </TouchableOpacity>
+                    <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>₹{serviceCharge.toFixed(2)}</ThemedText>
+                  </View>
+                )}
+                {/* GST summary, one group per slab */}
+                {taxBreakdown.map(slab => (
+                  <View key={`${slab.cgstRate}/${slab.sgstRate}`} style={{ marginTop: 4 }}>
+                    {taxBreakdown.length > 1 && (
+                      <ThemedText style={styles.taxSlabText}>
+                        GST {slab.cgstRate + slab.sgstRate}% on ₹{slab.taxableAmount.toFixed(2)}
+                      </ThemedText>
+                    )}
+                    <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                      <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>SGST ({slab.sgstRate}%):</ThemedText>
+                      <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>₹{slab.sgst.toFixed(2)}</ThemedText>
+                    </View>
+                    <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 4 }}>
+                      <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>CGST ({slab.cgstRate}%):</ThemedText>
+                      <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>₹{slab.cgst.toFixed(2)}</ThemedText>
+                    </View>
+                  </View>
+                ))}
+                {orderTaxLines.some(line => line.inclusive) && (
+                  <ThemedText style={styles.taxSlabText}>Items with tax-inclusive prices already contain their GST</ThemedText>
+                )}
+                {roundOff !== 0 && (
+                  <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 4 }}>
+                    <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>Round off:</ThemedText>
+                    <ThemedText style={[styles.totalCostLabel, { fontSize: 14, fontWeight: '400' }]}>
+                      {roundOff > 0 ? '+' : '-'}₹{Math.abs(roundOff).toFixed(2)}
+                    </ThemedText>
+                  </View>
+                )}
               </View>
 
               <ThemedText type="defaultSemiBold" style={[styles.totalCostLabel, { marginTop: 8 }]}>
@@ -1549,6 +2272,66 @@ const fetchLastOrder = useCallback(async () => {
               </TouchableOpacity>
             </View>
 
+            {/* Held courses: one tap sends the course to the kitchen */}
+            {existingBillId && heldCourses.length > 0 && (
+              <View style={styles.actionButtonsContainer}>
+                {heldCourses.map(({ course, quantity }) => (
+                  <TouchableOpacity
+                    key={course}
+                    disabled={loading || hasPendingChanges}
+                    onPress={() => handleFireCourse(course)}
+                    style={[styles.fireButton, (loading || hasPendingChanges) ? { opacity: 0.6 } : null]}
+                  >
+                    <ThemedText style={styles.completeButtonText}>
+                      Fire {COURSE_LABELS[course]} ({quantity})
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {/* Move / Merge Table Buttons */}
+            {existingBillId && tableNumber && (
+              <View style={styles.actionButtonsContainer}>
+                <TouchableOpacity
+                  disabled={loading}
+                  onPress={() => handleOpenTableAction('move')}
+                  style={[styles.tableActionButton, loading ? { opacity: 0.6 } : null]}
+                >
+                  <ThemedText style={styles.completeButtonText}>Move Table</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  disabled={loading}
+                  onPress={() => handleOpenTableAction('merge')}
+                  style={[styles.tableActionButton, loading ? { opacity: 0.6 } : null]}
+                >
+                  <ThemedText style={styles.completeButtonText}>Merge Table</ThemedText>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {/* Split Bill Button: splits open extra bills on the table */}
+            {tableNumber && (
+              <TouchableOpacity
+                disabled={loading || splittableItems.length === 0}
+                onPress={handleOpenSplit}
+                style={[styles.splitButton, (loading || splittableItems.length === 0) ? { opacity: 0.6 } : null]}
+              >
+                <ThemedText style={styles.completeButtonText}>Split Bill</ThemedText>
+              </TouchableOpacity>
+            )}
+
+            {/* Bill Preview Button: the server's copy, so unsent changes must go first */}
+            {existingBillId && lastFetchedBill && (
+              <TouchableOpacity
+                disabled={loading || hasPendingChanges}
+                onPress={() => setPreviewBill(lastFetchedBill)}
+                style={[styles.previewButton, (loading || hasPendingChanges) ? { opacity: 0.6 } : null]}
+              >
+                <ThemedText style={styles.completeButtonText}>Preview Bill</ThemedText>
+              </TouchableOpacity>
+            )}
+
             {/* Submit to KOT Button */}
             {existingBillId ? (
               (() => {
@@ -1556,7 +2339,7 @@ const fetchLastOrder = useCallback(async () => {
                 return (
                   <TouchableOpacity
                     disabled={isDisabled}
-                    onPress={updateKOT}
+                    onPress={() => updateKOT()}
                     style={[
                       styles.submitButton,
                       isDisabled ? { backgroundColor: '#BDBDBD' } : { backgroundColor: '#FF9500' },
@@ -1595,6 +2378,92 @@ const fetchLastOrder = useCallback(async () => {
         )}
       </ScrollView>
       )}
+
+      <TablePickerModal
+        action={tableAction}
+        fromTable={tableNumber}
+        tables={floor.tables}
+        occupied={floor.occupied}
+        floorPlan={floorPlan}
+        loading={tableActionBusy}
+        onSelect={handleTableActionTarget}
+        onCancel={() => setTableAction(null)}
+      />
+
+      <PaymentSheet
+        visible={paymentVisible}
+        payableAmount={settlementAmount ?? payableAmount}
+        submitting={loading}
+        onConfirm={completeOrder}
+        onCancel={() => setPaymentVisible(false)}
+      />
+
+      <PaymentSheet
+        visible={!!splitBillDue}
+        title={splitSettlement && splitBillDue ? `Payment · Bill #${splitBillDue.billNumber} (${splitSettlement.paid + 1} of ${splitSettlement.bills.length})` : undefined}
+        payableAmount={splitBillDue?.payableAmount ?? 0}
+        submitting={splitting}
+        onConfirm={handleSplitPayment}
+        onCancel={handleCancelSplitPayment}
+      />
+
+      <SplitBillModal
+        visible={splitVisible}
+        lines={splitModalLines}
+        submitting={splitting}
+        getPayable={getSplitPayable}
+        onConfirm={handleSplitBill}
+        onCancel={() => setSplitVisible(false)}
+      />
+
+      <ProductOptionsModal
+        product={configuringProduct}
+        onAdd={handleAddConfigured}
+        onCancel={() => setConfiguringProduct(null)}
+      />
+
+      <LineOptionsModal
+        visible={!!editingLine}
+        productName={editingLine?.product.name ?? ''}
+        initial={editingLine ?? NO_LINE_OPTIONS}
+        seats={tableNumber ? covers ?? 0 : 0}
+        onSave={handleSaveLineOptions}
+        onCancel={() => setEditingLineId(null)}
+      />
+
+      <CoversModal
+        visible={coversVisible}
+        title={orderLabel}
+        initial={covers}
+        onConfirm={handleChangeCovers}
+        onCancel={() => setCoversVisible(false)}
+      />
+
+      <BillPreviewModal
+        bill={previewBill}
+        taxSettings={taxSettings}
+        floorPlan={floorPlan}
+        onClose={() => setPreviewBill(null)}
+      />
+
+      <DiscountModal
+        visible={!!discountTarget}
+        title={discountLine ? `Discount on ${discountLine.product.name}` : 'Bill Discount'}
+        baseAmount={discountLine ? unitPriceOf(discountLine) * discountLine.quantity : subtotal}
+        initial={(discountLine ? discountLine.discount : billDiscount) ?? null}
+        onApply={handleApplyDiscount}
+        onRemove={() => handleApplyDiscount(null)}
+        onCancel={() => setDiscountTarget(null)}
+      />
+
+      <KotMergeModal
+        visible={!!mergeState}
+        tableNumber={tableNumber}
+        rows={mergeState?.rows ?? []}
+        onMerge={handleMergeAndUpdate}
+        onDiscardMine={handleDiscardMine}
+        onCancel={() => setMergeState(null)}
+      />
     </ThemedView>
   );
 }
@@ -1666,6 +2535,70 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#000',
   },
+  seatSubtotalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: '100%',
+  },
+  customerText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  syncBanner: {
+    backgroundColor: '#FFF4E6',
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF9500',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  syncBannerConflict: {
+    backgroundColor: '#FFEBEE',
+    borderLeftColor: '#FF3B30',
+  },
+  syncBannerText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  syncBannerActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  syncBannerButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  syncBannerButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  searchSection: {
+    marginBottom: 16,
+  },
+  searchInput: {
+    backgroundColor: '#E5E5EA',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#D1D1D6',
+    fontSize: 16,
+    color: '#000',
+  },
+  searchHighlight: {
+    color: '#007AFF',
+    fontWeight: '700',
+  },
+  shortCode: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 2,
+  },
   categorySection: {
     marginBottom: 24,
   },
@@ -1799,8 +2732,21 @@ const styles = StyleSheet.create({
     marginBottom: 24,
   },
   orderHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     marginBottom: 12,
   },
+  kitchenStatusPill: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  kitchenStatusText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   orderItem: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -1877,6 +2823,34 @@ const styles = StyleSheet.create({
     padding: 16,
     alignItems: 'center',
   },
+  fireButton: {
+    flex: 1,
+    backgroundColor: '#5856D6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  tableActionButton: {
+    flex: 1,
+    backgroundColor: '#8E8E93',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  splitButton: {
+    marginTop: 12,
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  previewButton: {
+    marginTop: 12,
+    backgroundColor: '#34C759',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
   completeButtonText: {
     color: '#fff',
     fontSize: 16,
@@ -1948,6 +2922,37 @@ const styles = StyleSheet.create({
     textDecorationLine: 'line-through',
     opacity: 0.6,
   },
+  lineOptionsText: {
+    fontSize: 12,
+    color: '#FF9500',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  lineOptionsLink: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  taxSlabText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  stationText: {
+    fontSize: 12,
+    color: '#5856D6',
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  stationPending: {
+    opacity: 0.6,
+  },
+  discountText: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 2,
+  },
   removedLabel: {
     fontSize: 12,
     color: '#FF3B30',
@@ -10,6 +10,7 @@ import { useState, useEffect } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import "react-native-reanimated";
 
+import { SessionExpiredModal } from "@/components/session-expired-modal";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 
 // export const unstable_settings = {
@@ -72,6 +73,7 @@ export default function RootLayout() {
           }}
         />
       </Stack>
+      <SessionExpiredModal />
       <StatusBar style="auto" />
     </ThemeProvider>
   );
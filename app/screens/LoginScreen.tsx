@@ -11,11 +11,17 @@ import {
   TouchableOpacity,
   View,
   ActivityIndicator,
+  FlatList,
 } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { ThemedText } from "../../components/themed-text";
 import { ThemedView } from "../../components/themed-view";
 import { useThemeColor } from "../../hooks/use-theme-color";
+import { useBackendDiscovery } from "../../hooks/use-backend-discovery";
+import { api, toApiError } from "../../services/api-client";
+import { reconnectRealtime } from "../../services/realtime";
+import { getServerHealth } from "../../services/server-health";
+import { loadOrderDraft, persistLogin } from "../../services/session";
 
 export default function LoginScreen() {
   const [email, setEmail] = useState("");
@@ -25,10 +31,13 @@ export default function LoginScreen() {
   const [ipModalVisible, setIpModalVisible] = useState(false);
   const [tempIp, setTempIp] = useState("");
   const [loadingIp, setLoadingIp] = useState(false);
+  const [discoveryMode, setDiscoveryMode] = useState(false);
 
   const router = useRouter();
   const inputBackground = useThemeColor({}, "background");
   const textColor = useThemeColor({}, "text");
+  // Browse the LAN only while the modal is open in discovery mode
+  const discovery = useBackendDiscovery(ipModalVisible && discoveryMode);
 
   // ✅ Load saved IP on app start
   useEffect(() => {
@@ -48,46 +57,44 @@ export default function LoginScreen() {
     loadIp();
   }, []);
 
-  // ✅ Check connection with backend /api/health
-  const handleSaveIp = async () => {
-    if (!tempIp.trim()) {
-      Alert.alert("Invalid Input", "Please enter a valid IP address");
-      return;
-    }
-
-    const formatted = tempIp.trim().replace(/\/+$/, "");
+  // ✅ Check connection with backend /api/health and remember it
+  const connectToServer = async (url: string) => {
+    const formatted = url.trim().replace(/\/+$/, "");
     setLoadingIp(true);
 
     try {
-      const res = await fetch(`${formatted}/api/health` );
-      const data = await res.json();
+      const health = await getServerHealth(formatted);
 
-      if (
-        res.ok &&
-        data.status === "UP" &&
-        data.database?.status === "Connected"
-      ) {
+      if (health === "up") {
         await AsyncStorage.setItem("server_ip", formatted);
         setIpAddress(formatted);
+        setTempIp(formatted);
         setIpModalVisible(false);
         Alert.alert("Connected", `Connected to backend: ${formatted}`);
-      } else {
+      } else if (health === "not-ready") {
         Alert.alert(
           "Connection Failed",
           "The server responded but is not ready. Check MongoDB or API."
         );
+      } else {
+        Alert.alert(
+          "Connection Error",
+          "Unable to reach the backend server. Check your IP or network."
+        );
       }
-    } catch (error) {
-      console.error("Health check error:", error);
-      Alert.alert(
-        "Connection Error",
-        "Unable to reach the backend server. Check your IP or network."
-      );
     } finally {
       setLoadingIp(false);
     }
   };
 
+  const handleSaveIp = async () => {
+    if (!tempIp.trim()) {
+      Alert.alert("Invalid Input", "Please enter a valid IP address");
+      return;
+    }
+    await connectToServer(tempIp);
+  };
+
   const validateForm = () => {
     const newErrors = { email: "", password: "" };
     let isValid = true;
@@ -119,37 +126,51 @@ export default function LoginScreen() {
     }
 
     try {
-      const response = await fetch(`${ipAddress}/api/user/login`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-        },
-        body: JSON.stringify({ email, password }),
-      });
-
-      const data = await response.json();
+      const data = await api.login({ email, password }, ipAddress);
       console.log("Response:", data);
 
-     
-
-      if (!response.ok) {
-        Alert.alert("Login Failed", data.msg || "Invalid credentials");
-        return;
-      }
-       if (data.user.employeeType !== "staff") {
+      if (data.user.employeeType !== "staff") {
         Alert.alert("Login Failed", "Only staff account can login");
         return;
       }
 
       // Save token to AsyncStorage
       if (data.token) {
-        await AsyncStorage.setItem("token", data.token);
+        await persistLogin(data.token, email, data.user);
+        // A socket left over from the previous login still carries the old token
+        reconnectRealtime();
       }
 
       Alert.alert("Login Successful", "Welcome back!");
       router.replace("/");
+      // Signed out from an expired session with unsent items: go back to that
+      // table, or to the takeaway/delivery order with its customer details
+      const draft = await loadOrderDraft();
+      if (draft?.tableNumber) {
+        router.push({
+          pathname: "/(tabs)/order",
+          params: { tableNumber: draft.tableNumber.toString() },
+        } as any);
+      } else if (draft?.tokenNumber && draft.orderType) {
+        router.push({
+          pathname: "/(tabs)/order",
+          params: {
+            tableNumber: "",
+            orderType: draft.orderType,
+            tokenNumber: String(draft.tokenNumber),
+            billId: draft.billId || "",
+            customerName: draft.customer?.name || "",
+            customerPhone: draft.customer?.phone || "",
+            customerAddress: draft.customer?.address || "",
+          },
+        } as any);
+      }
     } catch (err) {
+      const apiErr = toApiError(err);
+      if (!apiErr.isNetworkError && apiErr.status) {
+        Alert.alert("Login Failed", apiErr.message || "Invalid credentials");
+        return;
+      }
       console.error("Login Error:", err);
       Alert.alert(
         "Connection Error",
@@ -170,26 +191,98 @@ export default function LoginScreen() {
           <View style={styles.modalOverlay}>
             <View style={styles.modalContainer}>
               <ThemedText style={styles.modalTitle}>
-                Enter Server IP Address
+                {discoveryMode ? "Servers on this Network" : "Enter Server IP Address"}
               </ThemedText>
-              <TextInput
-                style={styles.modalInput}
-                placeholder="http://192.168.1.10:5000"
-                placeholderTextColor="#999"
-                value={tempIp}
-                onChangeText={setTempIp}
-                autoCapitalize="none"
-              />
-              {loadingIp ? (
-                <ActivityIndicator size="large" color="#007AFF" />
+              {discoveryMode ? (
+                <View style={styles.discoveryContainer}>
+                  <FlatList
+                    data={discovery.hosts}
+                    keyExtractor={(item) => item.url}
+                    style={styles.discoveryList}
+                    ListEmptyComponent={
+                      <ThemedText style={styles.discoveryEmpty}>
+                        {discovery.error
+                          ? discovery.error
+                          : discovery.scanning
+                          ? "Searching for Billingko servers..."
+                          : "No servers found. Make sure you are on the restaurant Wi-Fi."}
+                      </ThemedText>
+                    }
+                    renderItem={({ item }) => {
+                      const isUp = item.health === "up";
+                      return (
+                        <TouchableOpacity
+                          style={[styles.discoveryRow, !isUp && { opacity: 0.6 }]}
+                          disabled={loadingIp || item.health === "checking"}
+                          onPress={() =>
+                            isUp ? connectToServer(item.url) : discovery.checkHost(item.url)
+                          }
+                        >
+                          <View style={{ flex: 1 }}>
+                            <ThemedText style={styles.discoveryName}>{item.name}</ThemedText>
+                            <ThemedText style={styles.discoveryUrl}>{item.url}</ThemedText>
+                          </View>
+                          {item.health === "checking" ? (
+                            <ActivityIndicator size="small" color="#007AFF" />
+                          ) : (
+                            <ThemedText
+                              style={[
+                                styles.discoveryStatus,
+                                { color: isUp ? "#34C759" : "#FF3B30" },
+                              ]}
+                            >
+                              {isUp ? "Ready" : item.health === "not-ready" ? "Not ready" : "Unreachable"}
+                            </ThemedText>
+                          )}
+                        </TouchableOpacity>
+                      );
+                    }}
+                  />
+                  {loadingIp ? (
+                    <ActivityIndicator size="large" color="#007AFF" />
+                  ) : (
+                    <TouchableOpacity
+                      style={styles.modalButton}
+                      onPress={discovery.rescan}
+                      disabled={discovery.scanning}
+                    >
+                      <ThemedText style={styles.modalButtonText}>
+                        {discovery.scanning ? "Scanning..." : "Scan Again"}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  )}
+                </View>
               ) : (
-                <TouchableOpacity
-                  style={styles.modalButton}
-                  onPress={handleSaveIp}
-                >
-                  <ThemedText style={styles.modalButtonText}>Save</ThemedText>
-                </TouchableOpacity>
+                <>
+                  <TextInput
+                    style={styles.modalInput}
+                    placeholder="http://192.168.1.10:5000"
+                    placeholderTextColor="#999"
+                    value={tempIp}
+                    onChangeText={setTempIp}
+                    autoCapitalize="none"
+                  />
+                  {loadingIp ? (
+                    <ActivityIndicator size="large" color="#007AFF" />
+                  ) : (
+                    <TouchableOpacity
+                      style={styles.modalButton}
+                      onPress={handleSaveIp}
+                    >
+                      <ThemedText style={styles.modalButtonText}>Save</ThemedText>
+                    </TouchableOpacity>
+                  )}
+                </>
               )}
+              <TouchableOpacity
+                style={styles.modalLink}
+                onPress={() => setDiscoveryMode((prev) => !prev)}
+                disabled={loadingIp}
+              >
+                <ThemedText style={styles.modalLinkText}>
+                  {discoveryMode ? "Enter IP manually" : "Find server on network"}
+                </ThemedText>
+              </TouchableOpacity>
             </View>
           </View>
         </Modal>
@@ -373,4 +466,48 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "bold",
   },
+  modalLink: {
+    marginTop: 12,
+    padding: 6,
+  },
+  modalLinkText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  // Network discovery list
+  discoveryContainer: {
+    width: "100%",
+  },
+  discoveryList: {
+    maxHeight: 240,
+    marginBottom: 15,
+  },
+  discoveryEmpty: {
+    color: "#666",
+    fontSize: 14,
+    textAlign: "center",
+    paddingVertical: 20,
+  },
+  discoveryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E5EA",
+  },
+  discoveryName: {
+    color: "#000",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  discoveryUrl: {
+    color: "#666",
+    fontSize: 12,
+  },
+  discoveryStatus: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
 });
@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import type { Bill, TaxSettings } from '@/services/api-types';
+import { buildReceipt } from '@/services/bill-receipt';
+import { encodeReceipt } from '@/services/escpos';
+import type { FloorPlan } from '@/services/floor-plan';
+import { loadPrinterAddress, parsePrinterAddress, savePrinterAddress, sendToPrinter } from '@/services/printer';
+
+interface BillPreviewModalProps {
+  bill: Bill | null;
+  taxSettings: Pick<TaxSettings, 'cgst' | 'sgst' | 'fssaiNumber'>;
+  floorPlan: FloorPlan; // table labels
+  onClose: () => void;
+}
+
+const money = (amount: number) => `${amount < 0 ? '-' : ''}₹${Math.abs(amount).toFixed(2)}`;
+
+/**
+ * The customer's bill as it will print, to show at the table, with a Print
+ * button that sends it to the LAN thermal printer. The printer address is
+ * remembered on the device.
+ */
+export function BillPreviewModal({ bill, taxSettings, floorPlan, onClose }: BillPreviewModalProps) {
+  const insets = useSafeAreaInsets();
+  const [printerAddress, setPrinterAddress] = useState('');
+  const [printing, setPrinting] = useState(false);
+
+  useEffect(() => {
+    if (bill) loadPrinterAddress().then((saved) => setPrinterAddress(saved || ''));
+  }, [bill]);
+
+  const receipt = useMemo(
+    () => (bill ? buildReceipt(bill, taxSettings, floorPlan) : null),
+    [bill, taxSettings, floorPlan]
+  );
+
+  if (!receipt) return null;
+
+  const handlePrint = async () => {
+    const address = parsePrinterAddress(printerAddress);
+    if (!address) {
+      Alert.alert('Printer Address', 'Enter the printer IP address, for example 192.168.1.50 or 192.168.1.50:9100.');
+      return;
+    }
+    setPrinting(true);
+    try {
+      await sendToPrinter(address, encodeReceipt(receipt));
+      await savePrinterAddress(printerAddress);
+      Alert.alert('Printed', `Bill ${receipt.billNumber} was sent to the printer.`);
+    } catch (err: any) {
+      Alert.alert('Print Failed', err?.message || 'Unable to print the bill.');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <Modal visible animationType="slide" onRequestClose={onClose}>
+      <View style={[styles.container, { paddingTop: insets.top + 12, paddingBottom: insets.bottom + 12 }]}>
+        <ScrollView contentContainerStyle={styles.paper}>
+          <ThemedText style={styles.title}>{receipt.title}</ThemedText>
+          {receipt.fssaiNumber && <ThemedText style={styles.centered}>FSSAI No: {receipt.fssaiNumber}</ThemedText>}
+          <View style={styles.divider} />
+          <View style={styles.row}>
+            <ThemedText style={styles.text}>Bill: {receipt.billNumber}</ThemedText>
+            {receipt.orderLabel && <ThemedText style={styles.text}>{receipt.orderLabel}</ThemedText>}
+          </View>
+          <ThemedText style={styles.muted}>{receipt.date}</ThemedText>
+          {receipt.customer.map((line, idx) => (
+            <ThemedText key={idx} style={styles.text}>
+              {line}
+            </ThemedText>
+          ))}
+          <View style={styles.divider} />
+
+          {receipt.items.map((item, idx) => (
+            <View key={idx} style={styles.item}>
+              <ThemedText style={styles.text}>{item.name}</ThemedText>
+              {item.details && <ThemedText style={styles.muted}>{item.details}</ThemedText>}
+              <View style={styles.row}>
+                <ThemedText style={styles.muted}>
+                  {item.quantity} × {money(item.rate)}
+                </ThemedText>
+                <ThemedText style={styles.text}>{money(item.amount)}</ThemedText>
+              </View>
+            </View>
+          ))}
+          <View style={styles.divider} />
+
+          {receipt.totals.map((row, idx) => (
+            <View key={`${row.label}-${idx}`} style={[styles.row, row.emphasis && styles.totalRow]}>
+              <ThemedText style={row.emphasis ? styles.totalText : styles.text}>{row.label}</ThemedText>
+              <ThemedText style={row.emphasis ? styles.totalText : styles.text}>{money(row.amount)}</ThemedText>
+            </View>
+          ))}
+
+          {receipt.payments.length > 0 && (
+            <>
+              <View style={styles.divider} />
+              {receipt.payments.map((row, idx) => (
+                <View key={`${row.label}-${idx}`} style={styles.row}>
+                  <ThemedText style={styles.muted}>{row.label}</ThemedText>
+                  <ThemedText style={styles.muted}>{money(row.amount)}</ThemedText>
+                </View>
+              ))}
+            </>
+          )}
+          <View style={styles.divider} />
+          <ThemedText style={styles.centered}>Thank you! Visit again</ThemedText>
+        </ScrollView>
+
+        <TextInput
+          style={styles.input}
+          placeholder="Printer IP (e.g. 192.168.1.50:9100)"
+          placeholderTextColor="#999"
+          value={printerAddress}
+          onChangeText={setPrinterAddress}
+          autoCapitalize="none"
+          keyboardType="numbers-and-punctuation"
+        />
+        {printing ? (
+          <ActivityIndicator size="large" color="#007AFF" />
+        ) : (
+          <>
+            <TouchableOpacity style={styles.button} onPress={handlePrint}>
+              <ThemedText style={styles.buttonText}>Print Bill</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.link} onPress={onClose}>
+              <ThemedText style={styles.linkText}>Done</ThemedText>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#E5E5EA',
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  paper: {
+    backgroundColor: '#fff',
+    borderRadius: 4,
+    padding: 16,
+    minWidth: '100%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+    color: '#000',
+  },
+  centered: {
+    fontSize: 13,
+    textAlign: 'center',
+    color: '#000',
+  },
+  divider: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#8E8E93',
+    borderStyle: 'dashed',
+    marginVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  item: {
+    marginBottom: 6,
+  },
+  text: {
+    fontSize: 14,
+    color: '#000',
+  },
+  muted: {
+    fontSize: 12,
+    color: '#666',
+  },
+  totalRow: {
+    marginTop: 6,
+    paddingTop: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#000',
+  },
+  totalText: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#000',
+  },
+  input: {
+    width: '100%',
+    height: 42,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    marginTop: 12,
+    marginBottom: 8,
+    color: '#000',
+    backgroundColor: '#fff',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 10,
+    borderRadius: 10,
+    width: '100%',
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  link: {
+    marginTop: 8,
+    padding: 6,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,127 @@
+import React from 'react';
+import { ActivityIndicator, Modal, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import type { Captain } from '@/services/session';
+
+interface CaptainPickerModalProps {
+  visible: boolean;
+  title: string;
+  captains: Captain[] | null; // null while loading
+  currentId: string | null; // the table's captain now
+  busy: boolean;
+  onSelect: (captain: Captain | null) => void; // null clears the assignment
+  onCancel: () => void;
+}
+
+/**
+ * Captain to assign a table to, from the restaurant's staff accounts. The
+ * table's current captain is highlighted and can be cleared.
+ */
+export function CaptainPickerModal({ visible, title, captains, currentId, busy, onSelect, onCancel }: CaptainPickerModalProps) {
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <ThemedText style={styles.title}>{title}</ThemedText>
+          <ThemedText style={styles.subtitle}>Assign to a captain</ThemedText>
+
+          {!captains || busy ? (
+            <ActivityIndicator size="large" color="#007AFF" style={styles.loader} />
+          ) : (
+            <ScrollView style={styles.list}>
+              {captains.length === 0 && <ThemedText style={styles.subtitle}>No captains found.</ThemedText>}
+              {captains.map((c) => (
+                <TouchableOpacity
+                  key={c.id}
+                  style={[styles.row, c.id === currentId && styles.rowSelected]}
+                  onPress={() => onSelect(c)}
+                >
+                  <ThemedText style={[styles.rowText, c.id === currentId && styles.rowTextSelected]}>{c.name}</ThemedText>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          {!!currentId && !busy && (
+            <TouchableOpacity style={styles.link} onPress={() => onSelect(null)}>
+              <ThemedText style={styles.clearText}>Remove assignment</ThemedText>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.link} onPress={onCancel}>
+            <ThemedText style={styles.linkText}>Cancel</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  container: {
+    backgroundColor: '#fff',
+    width: '90%',
+    maxHeight: '80%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 6,
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  loader: {
+    marginVertical: 30,
+  },
+  list: {
+    alignSelf: 'stretch',
+  },
+  row: {
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    marginBottom: 8,
+  },
+  rowSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  rowText: {
+    fontSize: 16,
+    color: '#000',
+  },
+  rowTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  link: {
+    marginTop: 12,
+    padding: 6,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  clearText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+
+interface CoversModalProps {
+  visible: boolean;
+  title: string;
+  initial: number | null;
+  onConfirm: (covers: number) => void;
+  onCancel: () => void;
+}
+
+const QUICK_COVERS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+const MAX_COVERS = 99;
+
+/**
+ * How many guests sit at a table. Asked when a table is opened, so every bill
+ * carries its covers for spend-per-head reports; larger parties are typed in.
+ */
+export function CoversModal({ visible, title, initial, onConfirm, onCancel }: CoversModalProps) {
+  const [value, setValue] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setValue(initial ? String(initial) : '');
+      setError('');
+    }
+  }, [visible, initial]);
+
+  const handleConfirm = (covers: number) => {
+    if (!Number.isInteger(covers) || covers < 1 || covers > MAX_COVERS) {
+      setError(`Enter a number of guests between 1 and ${MAX_COVERS}`);
+      return;
+    }
+    onConfirm(covers);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <ThemedText style={styles.title}>{title}</ThemedText>
+          <ThemedText style={styles.subtitle}>How many guests?</ThemedText>
+
+          <View style={styles.chips}>
+            {QUICK_COVERS.map((covers) => (
+              <TouchableOpacity
+                key={covers}
+                style={[styles.chip, initial === covers && styles.chipSelected]}
+                onPress={() => handleConfirm(covers)}
+              >
+                <ThemedText style={[styles.chipText, initial === covers && styles.chipTextSelected]}>{covers}</ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            style={styles.input}
+            placeholder="More guests"
+            placeholderTextColor="#999"
+            keyboardType="number-pad"
+            value={value}
+            onChangeText={setValue}
+            maxLength={2}
+          />
+
+          {!!error && <ThemedText style={styles.error}>{error}</ThemedText>}
+
+          <TouchableOpacity style={styles.button} onPress={() => handleConfirm(parseInt(value, 10))}>
+            <ThemedText style={styles.buttonText}>OK</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.link} onPress={onCancel}>
+            <ThemedText style={styles.linkText}>Cancel</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  container: {
+    backgroundColor: '#fff',
+    width: '90%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 6,
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  chip: {
+    width: 48,
+    height: 48,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    margin: 4,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  input: {
+    width: '100%',
+    height: 42,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    marginBottom: 8,
+    color: '#000',
+  },
+  error: {
+    color: '#FF3B30',
+    fontSize: 13,
+    marginVertical: 8,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 10,
+    borderRadius: 10,
+    width: '100%',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  link: {
+    marginTop: 12,
+    padding: 6,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
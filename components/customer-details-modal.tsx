@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import type { OrderType } from '@/services/api-types';
+import { ORDER_TYPE_LABELS, type CustomerDetails } from '@/services/takeaway-orders';
+
+interface CustomerDetailsModalProps {
+  // Takeaway or delivery; null hides the modal
+  orderType: OrderType | null;
+  onConfirm: (customer: CustomerDetails) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Customer details for a new takeaway or delivery order. Takeaway only needs
+ * a name to call out with the token; delivery needs a phone and an address.
+ */
+export function CustomerDetailsModal({ orderType, onConfirm, onCancel }: CustomerDetailsModalProps) {
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [address, setAddress] = useState('');
+  const [error, setError] = useState('');
+  const isDelivery = orderType === 'delivery';
+
+  useEffect(() => {
+    if (orderType) {
+      setName('');
+      setPhone('');
+      setAddress('');
+      setError('');
+    }
+  }, [orderType]);
+
+  const handleConfirm = () => {
+    if (!name.trim()) {
+      setError('Enter the customer name');
+      return;
+    }
+    if (isDelivery && !phone.trim()) {
+      setError('A phone number is required for delivery');
+      return;
+    }
+    if (isDelivery && !address.trim()) {
+      setError('An address is required for delivery');
+      return;
+    }
+    onConfirm({ name: name.trim(), phone: phone.trim(), address: isDelivery ? address.trim() : '' });
+  };
+
+  return (
+    <Modal visible={!!orderType} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <ThemedText style={styles.title}>New {orderType ? ORDER_TYPE_LABELS[orderType] : ''} Order</ThemedText>
+
+          <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+            <TextInput
+              style={styles.input}
+              placeholder="Customer name"
+              placeholderTextColor="#999"
+              value={name}
+              onChangeText={setName}
+              autoCapitalize="words"
+              maxLength={60}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder={isDelivery ? 'Phone' : 'Phone (optional)'}
+              placeholderTextColor="#999"
+              value={phone}
+              onChangeText={setPhone}
+              keyboardType="phone-pad"
+              maxLength={15}
+            />
+            {isDelivery && (
+              <TextInput
+                style={[styles.input, styles.addressInput]}
+                placeholder="Delivery address"
+                placeholderTextColor="#999"
+                value={address}
+                onChangeText={setAddress}
+                multiline
+                maxLength={200}
+              />
+            )}
+          </ScrollView>
+
+          {!!error && <ThemedText style={styles.error}>{error}</ThemedText>}
+
+          <TouchableOpacity style={styles.button} onPress={handleConfirm}>
+            <ThemedText style={styles.buttonText}>Start Order</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.link} onPress={onCancel}>
+            <ThemedText style={styles.linkText}>Cancel</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  container: {
+    backgroundColor: '#fff',
+    width: '90%',
+    maxHeight: '85%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 15,
+    color: '#000',
+  },
+  list: {
+    width: '100%',
+  },
+  input: {
+    width: '100%',
+    height: 42,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    marginBottom: 8,
+    color: '#000',
+  },
+  addressInput: {
+    height: 80,
+    paddingTop: 10,
+    textAlignVertical: 'top',
+  },
+  error: {
+    color: '#FF3B30',
+    fontSize: 13,
+    marginVertical: 8,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 10,
+    borderRadius: 10,
+    width: '100%',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  link: {
+    marginTop: 12,
+    padding: 6,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
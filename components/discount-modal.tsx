@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { toApiError } from '@/services/api-client';
+import type { Discount, DiscountType } from '@/services/api-types';
+import { getDiscountAmount } from '@/services/bill-totals';
+import { approveAsManager } from '@/services/manager-approval';
+
+interface DiscountModalProps {
+  visible: boolean;
+  title: string;
+  // Amount the discount applies to, for the preview
+  baseAmount: number;
+  initial: Discount | null;
+  onApply: (discount: Discount) => void;
+  onRemove: () => void;
+  onCancel: () => void;
+}
+
+const DISCOUNT_REASONS = ['Regular guest', 'Complaint', 'Staff meal', 'Happy hour', 'Promotion'];
+
+/**
+ * Percentage or flat discount on one line or the whole bill. Every discount
+ * needs a reason and a manager's email and password; the manager's login is
+ * only used to check the approval, the captain stays signed in.
+ */
+export function DiscountModal({ visible, title, baseAmount, initial, onApply, onRemove, onCancel }: DiscountModalProps) {
+  const [type, setType] = useState<DiscountType>('percent');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [managerEmail, setManagerEmail] = useState('');
+  const [managerPassword, setManagerPassword] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setType(initial?.type ?? 'percent');
+      setValue(initial ? String(initial.value) : '');
+      setReason(initial?.reason ?? '');
+      setManagerEmail('');
+      setManagerPassword('');
+      setError('');
+    }
+  }, [visible, initial]);
+
+  const amount = parseFloat(value) || 0;
+  const preview = getDiscountAmount(baseAmount, { type, value: amount, reason, approvedBy: '', approvedAt: '' });
+
+  const handleApprove = async () => {
+    if (!(amount > 0) || (type === 'percent' && amount > 100)) {
+      setError(type === 'percent' ? 'Enter a percentage between 0 and 100' : 'Enter a discount amount');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('A reason is required');
+      return;
+    }
+    if (!managerEmail || !managerPassword) {
+      setError('Manager email and password are required');
+      return;
+    }
+    setSubmitting(true);
+    setError('');
+    try {
+      const manager = await approveAsManager(managerEmail, managerPassword);
+      if (!manager) {
+        setError('Only a manager can approve discounts');
+        return;
+      }
+      onApply({
+        type,
+        value: amount,
+        reason: reason.trim(),
+        approvedBy: manager.name || manager.email,
+        approvedAt: new Date().toISOString(),
+      });
+    } catch (err) {
+      setError(toApiError(err).message || 'Invalid manager credentials');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <ThemedText style={styles.title}>{title}</ThemedText>
+          <ThemedText style={styles.subtitle}>On ₹{baseAmount.toFixed(2)}</ThemedText>
+
+          <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+            <View style={styles.typeRow}>
+              {(['percent', 'flat'] as DiscountType[]).map((t) => (
+                <TouchableOpacity key={t} style={[styles.chip, type === t && styles.chipSelected]} onPress={() => setType(t)}>
+                  <ThemedText style={[styles.chipText, type === t && styles.chipTextSelected]}>
+                    {t === 'percent' ? 'Percent %' : 'Flat ₹'}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.input}
+              placeholder={type === 'percent' ? 'Discount %' : 'Discount ₹'}
+              placeholderTextColor="#999"
+              keyboardType="decimal-pad"
+              value={value}
+              onChangeText={setValue}
+            />
+            <ThemedText style={styles.preview}>Discount ₹{preview.toFixed(2)}</ThemedText>
+
+            <View style={styles.reasons}>
+              {DISCOUNT_REASONS.map((r) => (
+                <TouchableOpacity
+                  key={r}
+                  style={[styles.chip, reason === r && styles.chipSelected]}
+                  onPress={() => setReason(r)}
+                >
+                  <ThemedText style={[styles.chipText, reason === r && styles.chipTextSelected]}>{r}</ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder="Reason"
+              placeholderTextColor="#999"
+              value={reason}
+              onChangeText={setReason}
+              maxLength={80}
+            />
+
+            <ThemedText style={styles.sectionTitle}>Manager approval</ThemedText>
+            <TextInput
+              style={styles.input}
+              placeholder="Manager email"
+              placeholderTextColor="#999"
+              value={managerEmail}
+              onChangeText={setManagerEmail}
+              autoCapitalize="none"
+              keyboardType="email-address"
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Manager password"
+              placeholderTextColor="#999"
+              value={managerPassword}
+              onChangeText={setManagerPassword}
+              secureTextEntry
+            />
+          </ScrollView>
+
+          {!!error && <ThemedText style={styles.error}>{error}</ThemedText>}
+
+          {submitting ? (
+            <ActivityIndicator size="large" color="#007AFF" />
+          ) : (
+            <>
+              <TouchableOpacity style={styles.button} onPress={handleApprove}>
+                <ThemedText style={styles.buttonText}>Approve Discount</ThemedText>
+              </TouchableOpacity>
+              {initial && (
+                <TouchableOpacity style={[styles.button, styles.removeButton]} onPress={onRemove}>
+                  <ThemedText style={styles.buttonText}>Remove Discount</ThemedText>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.link} onPress={onCancel}>
+                <ThemedText style={styles.linkText}>Cancel</ThemedText>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  container: {
+    backgroundColor: '#fff',
+    width: '90%',
+    maxHeight: '85%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 6,
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  list: {
+    width: '100%',
+  },
+  typeRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 10,
+  },
+  reasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  input: {
+    width: '100%',
+    height: 42,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    marginBottom: 8,
+    color: '#000',
+  },
+  preview: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FF9500',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 6,
+    marginBottom: 6,
+  },
+  error: {
+    color: '#FF3B30',
+    fontSize: 13,
+    marginVertical: 8,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 10,
+    borderRadius: 10,
+    width: '100%',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  removeButton: {
+    backgroundColor: '#FF3B30',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  link: {
+    marginTop: 12,
+    padding: 6,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
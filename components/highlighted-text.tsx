@@ -0,0 +1,32 @@
+import React from 'react';
+import type { StyleProp, TextStyle } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import type { MatchRange } from '@/services/product-search';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: MatchRange[];
+  style?: StyleProp<TextStyle>;
+  highlightStyle?: StyleProp<TextStyle>;
+}
+
+// Renders `text` with the given (sorted, non-overlapping) ranges emphasised
+export function HighlightedText({ text, ranges, style, highlightStyle }: HighlightedTextProps) {
+  if (ranges.length === 0) return <ThemedText style={style}>{text}</ThemedText>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <ThemedText key={start} style={[style, highlightStyle]}>
+        {text.slice(start, end)}
+      </ThemedText>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <ThemedText style={style}>{parts}</ThemedText>;
+}
@@ -0,0 +1,166 @@
+import React from 'react';
+import { Modal, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import type { MergeRow } from '@/services/bill-merge';
+
+interface KotMergeModalProps {
+  visible: boolean;
+  tableNumber: number | null;
+  rows: MergeRow[];
+  onMerge: () => void;
+  onDiscardMine: () => void;
+  onCancel: () => void;
+}
+
+const formatChange = (from: number, to: number) => {
+  if (from === to) return '—';
+  const delta = to - from;
+  return `${to} (${delta > 0 ? '+' : ''}${delta})`;
+};
+
+/**
+ * Shown when another captain saved the table's bill after we loaded it. Lists
+ * their changes next to ours, per order line, with the quantity that merging
+ * would send.
+ */
+export function KotMergeModal({ visible, tableNumber, rows, onMerge, onDiscardMine, onCancel }: KotMergeModalProps) {
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <ThemedText style={styles.title}>Table {tableNumber} Was Updated</ThemedText>
+          <ThemedText style={styles.subtitle}>
+            Someone else changed this order after you opened it. Review both sets of changes before sending yours.
+          </ThemedText>
+
+          <View style={[styles.row, styles.headerRow]}>
+            <ThemedText style={[styles.cell, styles.nameCell, styles.headerText]}>Item</ThemedText>
+            <ThemedText style={[styles.cell, styles.headerText]}>Theirs</ThemedText>
+            <ThemedText style={[styles.cell, styles.headerText]}>Yours</ThemedText>
+            <ThemedText style={[styles.cell, styles.headerText]}>Merged</ThemedText>
+          </View>
+          <ScrollView style={styles.list}>
+            {rows.map((row) => (
+              <View key={row.key} style={styles.row}>
+                <ThemedText style={[styles.cell, styles.nameCell]} numberOfLines={2}>
+                  {row.name}
+                </ThemedText>
+                <ThemedText style={[styles.cell, row.theirs !== row.base && styles.theirChange]}>
+                  {formatChange(row.base, row.theirs)}
+                </ThemedText>
+                <ThemedText style={[styles.cell, row.ours !== row.base && styles.ourChange]}>
+                  {formatChange(row.base, row.ours)}
+                </ThemedText>
+                <ThemedText style={[styles.cell, styles.mergedText]}>{row.merged}</ThemedText>
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.button} onPress={onMerge}>
+            <ThemedText style={styles.buttonText}>Merge and Update KOT</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={onDiscardMine}>
+            <ThemedText style={styles.buttonText}>Discard My Changes</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.link} onPress={onCancel}>
+            <ThemedText style={styles.linkText}>Cancel</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  container: {
+    backgroundColor: '#fff',
+    width: '90%',
+    maxHeight: '80%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 6,
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  list: {
+    width: '100%',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerRow: {
+    width: '100%',
+  },
+  headerText: {
+    fontWeight: '600',
+    color: '#666',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 13,
+    textAlign: 'center',
+    color: '#000',
+  },
+  nameCell: {
+    flex: 2,
+    textAlign: 'left',
+  },
+  theirChange: {
+    color: '#FF9500',
+    fontWeight: '600',
+  },
+  ourChange: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  mergedText: {
+    fontWeight: '700',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 10,
+    borderRadius: 10,
+    width: '100%',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  secondaryButton: {
+    backgroundColor: '#FF3B30',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  link: {
+    marginTop: 4,
+    padding: 6,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
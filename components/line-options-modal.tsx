@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { KITCHEN_MODIFIERS, normalizeLineOptions, type LineOptions } from '@/services/order-lines';
+
+interface LineOptionsModalProps {
+  visible: boolean;
+  productName: string;
+  initial: LineOptions;
+  seats: number; // covers at the table; 0 hides the seat picker
+  onSave: (options: LineOptions) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modifier chips and a free-text note for one order line, e.g. "No onion" +
+ * "serve with the starters", and the seat of the guest who ordered it. Only
+ * offered for lines not yet sent to the kitchen.
+ */
+export function LineOptionsModal({ visible, productName, initial, seats, onSave, onCancel }: LineOptionsModalProps) {
+  const [modifiers, setModifiers] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [seat, setSeat] = useState<number | undefined>(undefined);
+
+  useEffect(() => {
+    if (visible) {
+      setModifiers(initial.modifiers || []);
+      setNotes(initial.notes || '');
+      setSeat(initial.seat);
+    }
+  }, [visible, initial]);
+
+  const toggleModifier = (modifier: string) => {
+    setModifiers((prev) => (prev.includes(modifier) ? prev.filter((m) => m !== modifier) : [...prev, modifier]));
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <ThemedText style={styles.title}>{productName}</ThemedText>
+          <ThemedText style={styles.subtitle}>Kitchen instructions for this line</ThemedText>
+
+          <ScrollView contentContainerStyle={styles.chips}>
+            {KITCHEN_MODIFIERS.map((modifier) => {
+              const selected = modifiers.includes(modifier);
+              return (
+                <TouchableOpacity
+                  key={modifier}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => toggleModifier(modifier)}
+                >
+                  <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{modifier}</ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {seats > 0 && (
+            <View style={styles.chips}>
+              {Array.from({ length: Math.max(seats, seat ?? 0) }, (_, i) => i + 1).map((s) => (
+                <TouchableOpacity
+                  key={s}
+                  style={[styles.chip, seat === s && styles.chipSelected]}
+                  onPress={() => setSeat(seat === s ? undefined : s)}
+                >
+                  <ThemedText style={[styles.chipText, seat === s && styles.chipTextSelected]}>Seat {s}</ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <TextInput
+            style={styles.input}
+            placeholder="Note for the kitchen"
+            placeholderTextColor="#999"
+            value={notes}
+            onChangeText={setNotes}
+            multiline
+            maxLength={140}
+          />
+
+          <TouchableOpacity style={styles.button} onPress={() => onSave(normalizeLineOptions({ modifiers, notes, seat }))}>
+            <ThemedText style={styles.buttonText}>Save</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.link} onPress={onCancel}>
+            <ThemedText style={styles.linkText}>Cancel</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  container: {
+    backgroundColor: '#fff',
+    width: '90%',
+    maxHeight: '80%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 6,
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  input: {
+    width: '100%',
+    minHeight: 60,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginBottom: 12,
+    color: '#000',
+    textAlignVertical: 'top',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 10,
+    borderRadius: 10,
+    width: '100%',
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  link: {
+    marginTop: 12,
+    padding: 6,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
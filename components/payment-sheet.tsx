@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import type { BillPayment, PaymentMethod } from '@/services/api-types';
+import { PAYMENT_METHODS, summarizePayments } from '@/services/payments';
+
+interface PaymentSheetProps {
+  visible: boolean;
+  title?: string; // which bill is being paid when several are settled in a row
+  payableAmount: number;
+  submitting: boolean;
+  onConfirm: (tenders: BillPayment[]) => void;
+  onCancel: () => void;
+}
+
+// Text inputs hold what the captain typed; tenders are derived from them
+interface TenderDraft {
+  method: PaymentMethod;
+  amount: string;
+  received: string;
+  reference: string;
+}
+
+const parseAmount = (text: string) => {
+  const value = parseFloat(text.replace(/,/g, ''));
+  return Number.isFinite(value) ? value : 0;
+};
+
+const toTenders = (drafts: TenderDraft[]): BillPayment[] =>
+  drafts.map((d) => ({
+    method: d.method,
+    amount: parseAmount(d.amount),
+    ...(d.method === 'cash' && d.received.trim() ? { received: parseAmount(d.received) } : {}),
+    ...(d.method !== 'cash' && d.reference.trim() ? { reference: d.reference.trim() } : {}),
+  }));
+
+/**
+ * Settlement sheet for Complete Order and split bills: one or more tenders
+ * (part cash, part UPI, ...) that must add up to the payable amount, with
+ * change worked out from the cash received.
+ */
+export function PaymentSheet({
+  visible,
+  title = 'Payment',
+  payableAmount,
+  submitting,
+  onConfirm,
+  onCancel,
+}: PaymentSheetProps) {
+  const [drafts, setDrafts] = useState<TenderDraft[]>([]);
+
+  // A new bill (or the next one in a split) starts from a single cash tender
+  useEffect(() => {
+    if (visible) {
+      setDrafts([{ method: 'cash', amount: payableAmount.toFixed(2), received: '', reference: '' }]);
+    }
+  }, [visible, title, payableAmount]);
+
+  const tenders = toTenders(drafts);
+  const summary = summarizePayments(tenders, payableAmount);
+
+  const updateDraft = (index: number, patch: Partial<TenderDraft>) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  // New tender starts with whatever is still unpaid
+  const addTender = () => {
+    const remaining = Math.max(0, summary.remaining);
+    setDrafts((prev) => [...prev, { method: 'upi', amount: remaining.toFixed(2), received: '', reference: '' }]);
+  };
+
+  const removeTender = (index: number) => {
+    setDrafts((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <ThemedText style={styles.title}>{title}</ThemedText>
+          <ThemedText style={styles.payable}>Payable ₹{payableAmount.toFixed(2)}</ThemedText>
+
+          <ScrollView style={styles.list}>
+            {drafts.map((draft, index) => (
+              <View key={index} style={styles.tender}>
+                <View style={styles.methodRow}>
+                  {PAYMENT_METHODS.map((m) => (
+                    <TouchableOpacity
+                      key={m.id}
+                      style={[styles.method, draft.method === m.id && styles.methodSelected]}
+                      onPress={() => updateDraft(index, { method: m.id })}
+                    >
+                      <ThemedText style={[styles.methodText, draft.method === m.id && styles.methodTextSelected]}>
+                        {m.label}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                  {drafts.length > 1 && (
+                    <TouchableOpacity style={styles.remove} onPress={() => removeTender(index)}>
+                      <ThemedText style={styles.removeText}>✕</ThemedText>
+                    </TouchableOpacity>
+                  )}
+                </View>
+
+                <TextInput
+                  style={styles.input}
+                  placeholder="Amount"
+                  placeholderTextColor="#999"
+                  keyboardType="decimal-pad"
+                  value={draft.amount}
+                  onChangeText={(text) => updateDraft(index, { amount: text })}
+                />
+                {draft.method === 'cash' ? (
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Cash received (optional)"
+                    placeholderTextColor="#999"
+                    keyboardType="decimal-pad"
+                    value={draft.received}
+                    onChangeText={(text) => updateDraft(index, { received: text })}
+                  />
+                ) : (
+                  <TextInput
+                    style={styles.input}
+                    placeholder={draft.method === 'upi' ? 'UPI reference (optional)' : 'Card slip number (optional)'}
+                    placeholderTextColor="#999"
+                    value={draft.reference}
+                    onChangeText={(text) => updateDraft(index, { reference: text })}
+                  />
+                )}
+              </View>
+            ))}
+
+            <TouchableOpacity style={styles.addTender} onPress={addTender}>
+              <ThemedText style={styles.linkText}>+ Add another payment</ThemedText>
+            </TouchableOpacity>
+          </ScrollView>
+
+          <View style={styles.summary}>
+            <ThemedText style={styles.summaryText}>Paid ₹{summary.paid.toFixed(2)}</ThemedText>
+            <ThemedText style={[styles.summaryText, summary.remaining !== 0 && styles.summaryWarning]}>
+              {summary.remaining >= 0
+                ? `Remaining ₹${summary.remaining.toFixed(2)}`
+                : `Over by ₹${Math.abs(summary.remaining).toFixed(2)}`}
+            </ThemedText>
+            {summary.change > 0 && (
+              <ThemedText style={styles.changeText}>Change to return ₹{summary.change.toFixed(2)}</ThemedText>
+            )}
+          </View>
+
+          {submitting ? (
+            <ActivityIndicator size="large" color="#007AFF" />
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.button, !summary.complete && styles.buttonDisabled]}
+                disabled={!summary.complete}
+                onPress={() => onConfirm(tenders)}
+              >
+                <ThemedText style={styles.buttonText}>Complete Order</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.link} onPress={onCancel}>
+                <ThemedText style={styles.linkText}>Cancel</ThemedText>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  container: {
+    backgroundColor: '#fff',
+    width: '90%',
+    maxHeight: '85%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+    color: '#000',
+  },
+  payable: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#34C759',
+    marginBottom: 12,
+  },
+  list: {
+    width: '100%',
+  },
+  tender: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 10,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  method: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 16,
+    marginRight: 6,
+  },
+  methodSelected: {
+    backgroundColor: '#007AFF',
+  },
+  methodText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  methodTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  remove: {
+    marginLeft: 'auto',
+    padding: 6,
+  },
+  removeText: {
+    color: '#FF3B30',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  input: {
+    width: '100%',
+    height: 42,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    marginBottom: 8,
+    color: '#000',
+  },
+  addTender: {
+    alignItems: 'center',
+    padding: 6,
+    marginBottom: 8,
+  },
+  summary: {
+    width: '100%',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+    marginBottom: 10,
+  },
+  summaryText: {
+    fontSize: 15,
+    color: '#000',
+  },
+  summaryWarning: {
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  changeText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FF9500',
+    marginTop: 4,
+  },
+  button: {
+    backgroundColor: '#5856D6',
+    paddingVertical: 10,
+    borderRadius: 10,
+    width: '100%',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#BDBDBD',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  link: {
+    marginTop: 12,
+    padding: 6,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import type { BillItemOption, Product, ProductOption } from '@/services/api-types';
+import { getDefaultVariants, getUnitPrice, type LineOptions } from '@/services/order-lines';
+
+interface ProductOptionsModalProps {
+  product: Product | null;
+  onAdd: (product: Product, options: LineOptions) => void;
+  onCancel: () => void;
+}
+
+const formatDelta = (delta: number) => {
+  if (!delta) return '';
+  return `${delta > 0 ? '+' : '-'}₹${Math.abs(delta).toFixed(2)}`;
+};
+
+const toChoice = (option: ProductOption, group?: string): BillItemOption => ({
+  ...(group ? { group } : {}),
+  name: option.name,
+  priceDelta: Number(option.priceDelta) || 0,
+});
+
+/**
+ * Variant and add-on picker shown when a product with options is tapped in
+ * the product grid. One option per variant group is required (the first is
+ * preselected); add-ons are optional.
+ */
+export function ProductOptionsModal({ product, onAdd, onCancel }: ProductOptionsModalProps) {
+  const [variants, setVariants] = useState<BillItemOption[]>([]);
+  const [addons, setAddons] = useState<BillItemOption[]>([]);
+
+  useEffect(() => {
+    if (product) {
+      setVariants(getDefaultVariants(product));
+      setAddons([]);
+    }
+  }, [product]);
+
+  if (!product) return null;
+
+  const selectVariant = (group: string, option: ProductOption) => {
+    setVariants((prev) => [...prev.filter((v) => v.group !== group), toChoice(option, group)]);
+  };
+
+  const toggleAddon = (option: ProductOption) => {
+    setAddons((prev) =>
+      prev.some((a) => a.name === option.name) ? prev.filter((a) => a.name !== option.name) : [...prev, toChoice(option)]
+    );
+  };
+
+  const unitPrice = getUnitPrice(product, { variants, addons });
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <ThemedText style={styles.title}>{product.name}</ThemedText>
+
+          <ScrollView style={styles.list}>
+            {(product.variantGroups || [])
+              .filter((group) => group.options?.length)
+              .map((group) => (
+                <View key={group.name} style={styles.group}>
+                  <ThemedText style={styles.groupTitle}>{group.name}</ThemedText>
+                  {group.options.map((option) => {
+                    const selected = variants.some((v) => v.group === group.name && v.name === option.name);
+                    return (
+                      <TouchableOpacity
+                        key={option._id ?? option.name}
+                        style={[styles.option, selected && styles.optionSelected]}
+                        onPress={() => selectVariant(group.name, option)}
+                      >
+                        <ThemedText style={[styles.optionText, selected && styles.optionTextSelected]}>
+                          {selected ? '◉' : '○'} {option.name}
+                        </ThemedText>
+                        <ThemedText style={styles.optionDelta}>{formatDelta(Number(option.priceDelta) || 0)}</ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ))}
+
+            {!!product.addons?.length && (
+              <View style={styles.group}>
+                <ThemedText style={styles.groupTitle}>Add-ons</ThemedText>
+                {product.addons.map((option) => {
+                  const selected = addons.some((a) => a.name === option.name);
+                  return (
+                    <TouchableOpacity
+                      key={option._id ?? option.name}
+                      style={[styles.option, selected && styles.optionSelected]}
+                      onPress={() => toggleAddon(option)}
+                    >
+                      <ThemedText style={[styles.optionText, selected && styles.optionTextSelected]}>
+                        {selected ? '☑' : '☐'} {option.name}
+                      </ThemedText>
+                      <ThemedText style={styles.optionDelta}>{formatDelta(Number(option.priceDelta) || 0)}</ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.button} onPress={() => onAdd(product, { variants, addons })}>
+            <ThemedText style={styles.buttonText}>Add · ₹{unitPrice.toFixed(2)}</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.link} onPress={onCancel}>
+            <ThemedText style={styles.linkText}>Cancel</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  container: {
+    backgroundColor: '#fff',
+    width: '90%',
+    maxHeight: '80%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+    color: '#000',
+  },
+  list: {
+    width: '100%',
+    marginBottom: 12,
+  },
+  group: {
+    marginBottom: 12,
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 6,
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    marginBottom: 6,
+  },
+  optionSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#EAF3FF',
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#000',
+  },
+  optionTextSelected: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  optionDelta: {
+    fontSize: 14,
+    color: '#666',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 10,
+    borderRadius: 10,
+    width: '100%',
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  link: {
+    marginTop: 12,
+    padding: 6,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,180 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { api, toApiError } from '@/services/api-client';
+import {
+  loadLastLoginEmail,
+  notifySessionRestored,
+  persistLogin,
+  resetSession,
+  subscribeSession,
+} from '@/services/session';
+
+/**
+ * Re-login prompt shown over whatever screen hit a 401. Signing in here keeps
+ * the current screen (and any unsent order) mounted underneath; signing out
+ * goes to the login screen, which sends the captain back to the saved draft.
+ */
+export function SessionExpiredModal() {
+  const router = useRouter();
+  const [visible, setVisible] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(
+    () =>
+      subscribeSession(async (event) => {
+        if (event === 'expired') {
+          setEmail((await loadLastLoginEmail()) || '');
+          setPassword('');
+          setError('');
+          setVisible(true);
+        } else {
+          setVisible(false);
+        }
+      }),
+    []
+  );
+
+  const handleSignIn = async () => {
+    if (!email || !password) {
+      setError('Email and password are required');
+      return;
+    }
+    setSubmitting(true);
+    setError('');
+    try {
+      const data = await api.login({ email, password });
+      if (data.user.employeeType !== 'staff') {
+        setError('Only staff account can login');
+        return;
+      }
+      await persistLogin(data.token, email, data.user);
+      notifySessionRestored();
+    } catch (err) {
+      setError(toApiError(err).message || 'Invalid credentials');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await AsyncStorage.removeItem('token');
+    setVisible(false);
+    resetSession();
+    router.replace('/screens/LoginScreen');
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade">
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <ThemedText style={styles.title}>Session Expired</ThemedText>
+          <ThemedText style={styles.subtitle}>
+            Sign in again to continue. Items you have not sent yet are kept.
+          </ThemedText>
+          <TextInput
+            style={styles.input}
+            placeholder="Email"
+            placeholderTextColor="#999"
+            value={email}
+            onChangeText={setEmail}
+            autoCapitalize="none"
+            keyboardType="email-address"
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Password"
+            placeholderTextColor="#999"
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry
+          />
+          {error ? <ThemedText style={styles.errorText}>{error}</ThemedText> : null}
+          {submitting ? (
+            <ActivityIndicator size="large" color="#007AFF" />
+          ) : (
+            <>
+              <TouchableOpacity style={styles.button} onPress={handleSignIn}>
+                <ThemedText style={styles.buttonText}>Sign In</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.link} onPress={handleSignOut}>
+                <ThemedText style={styles.linkText}>Sign out instead</ThemedText>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  container: {
+    backgroundColor: '#fff',
+    width: '85%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 6,
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  input: {
+    width: '100%',
+    height: 45,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    marginBottom: 12,
+    color: '#000',
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 12,
+    marginBottom: 10,
+    alignSelf: 'flex-start',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 10,
+    borderRadius: 10,
+    width: '100%',
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  link: {
+    marginTop: 12,
+    padding: 6,
+  },
+  linkText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { equalAssignment, splitLines, unassignedLines } from '@/services/bill-split';
+
+export interface SplitLine {
+  key: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+type SplitMode = 'equal' | 'items';
+
+interface SplitBillModalProps {
+  visible: boolean;
+  lines: SplitLine[];
+  submitting: boolean;
+  // Payable amount for a guest's lines, taxes and rounding included
+  getPayable: (lines: SplitLine[]) => number;
+  onConfirm: (guests: number, assignment: number[][]) => void;
+  onCancel: () => void;
+}
+
+const MIN_GUESTS = 2;
+const MAX_GUESTS = 10;
+
+const formatQty = (qty: number) => (Number.isInteger(qty) ? String(qty) : qty.toFixed(2).replace(/0$/, ''));
+
+/**
+ * Split the table's order into one bill per guest, either equally or by
+ * assigning each line to the guests who shared it.
+ */
+export function SplitBillModal({ visible, lines, submitting, getPayable, onConfirm, onCancel }: SplitBillModalProps) {
+  const [guests, setGuests] = useState(MIN_GUESTS);
+  const [mode, setMode] = useState<SplitMode>('equal');
+  const [assignment, setAssignment] = useState<number[][]>([]);
+
+  useEffect(() => {
+    if (visible) {
+      setGuests(MIN_GUESTS);
+      setMode('equal');
+      setAssignment(lines.map(() => [0]));
+    }
+  }, [visible, lines]);
+
+  const changeGuests = (next: number) => {
+    const count = Math.min(MAX_GUESTS, Math.max(MIN_GUESTS, next));
+    setGuests(count);
+    // Drop guests that no longer exist from every line
+    setAssignment((prev) => prev.map((sharers) => sharers.filter((g) => g < count)));
+  };
+
+  const toggleGuest = (lineIdx: number, guest: number) => {
+    setAssignment((prev) =>
+      prev.map((sharers, i) =>
+        i !== lineIdx ? sharers : sharers.includes(guest) ? sharers.filter((g) => g !== guest) : [...sharers, guest]
+      )
+    );
+  };
+
+  const effective = mode === 'equal' ? equalAssignment(lines.length, guests) : assignment;
+  const perGuest = splitLines(lines, effective, guests);
+  const missing = unassignedLines(effective, lines.length);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <ThemedText style={styles.title}>Split Bill</ThemedText>
+
+          <View style={styles.guestRow}>
+            <ThemedText style={styles.label}>Guests</ThemedText>
+            <TouchableOpacity style={styles.stepper} onPress={() => changeGuests(guests - 1)}>
+              <ThemedText style={styles.stepperText}>-</ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={styles.guestCount}>{guests}</ThemedText>
+            <TouchableOpacity style={styles.stepper} onPress={() => changeGuests(guests + 1)}>
+              <ThemedText style={styles.stepperText}>+</ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.modeRow}>
+            {(['equal', 'items'] as SplitMode[]).map((m) => (
+              <TouchableOpacity
+                key={m}
+                style={[styles.modeButton, mode === m && styles.modeButtonActive]}
+                onPress={() => setMode(m)}
+              >
+                <ThemedText style={[styles.modeText, mode === m && styles.modeTextActive]}>
+                  {m === 'equal' ? 'Equal Shares' : 'By Items'}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ScrollView style={styles.list}>
+            {mode === 'items' &&
+              lines.map((line, i) => (
+                <View key={line.key} style={styles.line}>
+                  <ThemedText style={styles.lineName}>
+                    {formatQty(line.quantity)} × {line.name}
+                  </ThemedText>
+                  <View style={styles.chips}>
+                    {Array.from({ length: guests }, (_, g) => {
+                      const selected = (assignment[i] || []).includes(g);
+                      return (
+                        <TouchableOpacity
+                          key={g}
+                          style={[styles.chip, selected && styles.chipSelected]}
+                          onPress={() => toggleGuest(i, g)}
+                        >
+                          <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>G{g + 1}</ThemedText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              ))}
+
+            {perGuest.map((guestLines, g) => (
+              <View key={g} style={styles.summaryRow}>
+                <ThemedText style={styles.summaryGuest}>Guest {g + 1}</ThemedText>
+                <ThemedText style={styles.summaryItems}>
+                  {guestLines.length === 0
+                    ? 'No items'
+                    : guestLines.map((l) => `${formatQty(l.quantity)} × ${l.name}`).join(', ')}
+                </ThemedText>
+                <ThemedText style={styles.summaryAmount}>₹{getPayable(guestLines).toFixed(2)}</ThemedText>
+              </View>
+            ))}
+          </ScrollView>
+
+          {missing.length > 0 && (
+            <ThemedText style={styles.warning}>Assign every item to at least one guest.</ThemedText>
+          )}
+
+          {submitting ? (
+            <ActivityIndicator size="large" color="#007AFF" />
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.button, missing.length > 0 && styles.buttonDisabled]}
+                disabled={missing.length > 0}
+                onPress={() => onConfirm(guests, effective)}
+              >
+                <ThemedText style={styles.buttonText}>Create Separate Bills</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.link} onPress={onCancel}>
+                <ThemedText style={styles.linkText}>Cancel</ThemedText>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  container: {
+    backgroundColor: '#fff',
+    width: '92%',
+    maxHeight: '85%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+    color: '#000',
+  },
+  guestRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 15,
+    color: '#666',
+    marginRight: 12,
+  },
+  stepper: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperText: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  guestCount: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+    marginHorizontal: 16,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  modeButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    marginHorizontal: 4,
+    borderRadius: 16,
+  },
+  modeButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  modeText: {
+    color: '#007AFF',
+    fontSize: 14,
+  },
+  modeTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  list: {
+    width: '100%',
+    marginBottom: 12,
+  },
+  line: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  lineName: {
+    fontSize: 14,
+    color: '#000',
+    marginBottom: 6,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  summaryRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  summaryGuest: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+  },
+  summaryItems: {
+    fontSize: 12,
+    color: '#666',
+  },
+  summaryAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#34C759',
+    alignSelf: 'flex-end',
+  },
+  warning: {
+    color: '#FF3B30',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 10,
+    borderRadius: 10,
+    width: '100%',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#BDBDBD',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  link: {
+    marginTop: 12,
+    padding: 6,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,145 @@
+import React from 'react';
+import { ActivityIndicator, Modal, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { findFloorTable, getTableName, type FloorPlan } from '@/services/floor-plan';
+
+export type TableAction = 'move' | 'merge';
+
+interface TablePickerModalProps {
+  action: TableAction | null;
+  fromTable: number | null;
+  tables: number[];
+  occupied: Set<number>;
+  floorPlan: FloorPlan; // table labels
+  loading: boolean;
+  onSelect: (tableNumber: number) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Target table for a move (free tables only) or a merge (tables with an open
+ * order only). The table being acted on is never offered.
+ */
+export function TablePickerModal({
+  action,
+  fromTable,
+  tables,
+  occupied,
+  floorPlan,
+  loading,
+  onSelect,
+  onCancel,
+}: TablePickerModalProps) {
+  const fromName = fromTable ? getTableName(floorPlan, fromTable) : '';
+  const selectable = (t: number) => t !== fromTable && (action === 'move' ? !occupied.has(t) : occupied.has(t));
+
+  return (
+    <Modal visible={!!action} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <ThemedText style={styles.title}>
+            {action === 'move' ? `Move ${fromName} to…` : `Merge into ${fromName} from…`}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>
+            {action === 'move'
+              ? 'Only free tables can take the order.'
+              : 'The chosen table’s items are added to this order and its bill is closed.'}
+          </ThemedText>
+
+          {loading ? (
+            <ActivityIndicator size="large" color="#007AFF" style={styles.loader} />
+          ) : (
+            <ScrollView contentContainerStyle={styles.grid}>
+              {tables.map((t) => {
+                const enabled = selectable(t);
+                return (
+                  <TouchableOpacity
+                    key={t}
+                    disabled={!enabled}
+                    style={[styles.table, occupied.has(t) && styles.tableOccupied, !enabled && styles.tableDisabled]}
+                    onPress={() => onSelect(t)}
+                  >
+                    <ThemedText style={styles.tableText}>{findFloorTable(floorPlan, t)?.label || t}</ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          <TouchableOpacity style={styles.link} onPress={onCancel}>
+            <ThemedText style={styles.linkText}>Cancel</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  container: {
+    backgroundColor: '#fff',
+    width: '90%',
+    maxHeight: '80%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 6,
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  table: {
+    width: 56,
+    height: 56,
+    margin: 6,
+    borderRadius: 10,
+    backgroundColor: '#E5E5EA',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  tableOccupied: {
+    backgroundColor: '#FFF3CD',
+    borderWidth: 2,
+    borderColor: '#FFC107',
+  },
+  tableDisabled: {
+    opacity: 0.3,
+  },
+  tableText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  link: {
+    marginTop: 12,
+    padding: 6,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { browseBackends, type DiscoveredBackend } from '@/services/backend-discovery';
+import { getServerHealth, type ServerHealth } from '@/services/server-health';
+
+// mDNS never says "done"; stop browsing after a while to save battery
+const SCAN_DURATION_MS = 15000;
+
+export interface DiscoveredHost extends DiscoveredBackend {
+  health: ServerHealth | 'checking';
+}
+
+/**
+ * Scans the LAN for Billingko backends while `active` is true and runs the
+ * `/api/health` check against every host found.
+ */
+export function useBackendDiscovery(active: boolean) {
+  const [hosts, setHosts] = useState<DiscoveredHost[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const seenRef = useRef(new Set<string>());
+
+  const stop = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    stopRef.current?.();
+    stopRef.current = null;
+    setScanning(false);
+  }, []);
+
+  const checkHost = useCallback(async (url: string) => {
+    setHosts((prev) => prev.map((h) => (h.url === url ? { ...h, health: 'checking' } : h)));
+    const health = await getServerHealth(url);
+    setHosts((prev) => prev.map((h) => (h.url === url ? { ...h, health } : h)));
+  }, []);
+
+  const start = useCallback(() => {
+    stop();
+    setHosts([]);
+    setError(null);
+    seenRef.current = new Set();
+    try {
+      stopRef.current = browseBackends(
+        (backend) => {
+          if (seenRef.current.has(backend.url)) return;
+          seenRef.current.add(backend.url);
+          setHosts((prev) => [...prev, { ...backend, health: 'checking' }]);
+          checkHost(backend.url);
+        },
+        (err) => setError(err.message || 'Discovery failed')
+      );
+      setScanning(true);
+      timerRef.current = setTimeout(stop, SCAN_DURATION_MS);
+    } catch (err: any) {
+      console.error('Backend discovery unavailable:', err);
+      setError('Network discovery is not available in this build. Enter the IP manually.');
+    }
+  }, [stop, checkHost]);
+
+  useEffect(() => {
+    if (!active) return;
+    start();
+    return stop;
+  }, [active, start, stop]);
+
+  return { hosts, scanning, error, rescan: start, checkHost };
+}
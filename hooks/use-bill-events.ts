@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from 'react';
+
+import {
+  getRealtimeStatus,
+  subscribeBillEvents,
+  subscribeRealtimeStatus,
+  type BillEvent,
+  type RealtimeStatus,
+} from '@/services/realtime';
+
+// Fallback refresh rate while the realtime socket is down
+const POLL_INTERVAL_MS = 10000;
+
+/**
+ * Delivers live bill events to a screen. While the socket is not connected
+ * (server without realtime support, Wi-Fi hiccup) `onPoll` runs on an interval
+ * instead, so the screen still converges on server state.
+ */
+export function useBillEvents(
+  enabled: boolean,
+  onEvent: (event: BillEvent) => void,
+  onPoll?: () => void
+) {
+  const [status, setStatus] = useState<RealtimeStatus>(getRealtimeStatus);
+  const onEventRef = useRef(onEvent);
+  const onPollRef = useRef(onPoll);
+  onEventRef.current = onEvent;
+  onPollRef.current = onPoll;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const unsubscribeStatus = subscribeRealtimeStatus(setStatus);
+    const unsubscribeEvents = subscribeBillEvents((event) => onEventRef.current(event));
+    setStatus(getRealtimeStatus());
+    return () => {
+      unsubscribeEvents();
+      unsubscribeStatus();
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || status === 'open') return;
+    const timer = setInterval(() => onPollRef.current?.(), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [enabled, status]);
+
+  return { live: enabled && status === 'open' };
+}
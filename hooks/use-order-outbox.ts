@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+
+import {
+  getPendingTables,
+  loadOutbox,
+  replayOutbox,
+  subscribeOutbox,
+  type OutboxEntry,
+  type ReplayResult,
+} from '@/services/order-outbox';
+
+// How often to probe /api/health while there is something waiting to be sent
+const RETRY_INTERVAL_MS = 15000;
+
+// Every mounted screen shares the same replay; its print errors are shown once
+const reportedReplays = new WeakSet<ReplayResult>();
+
+/**
+ * Exposes the offline order outbox to a screen and keeps retrying the queued
+ * entries while the backend is unreachable. `onSent` runs after a replay that
+ * delivered at least one entry, so the screen can refetch server state. The
+ * KOTs of delivered entries are printed by the replay itself.
+ */
+export function useOrderOutbox(apiUrl: string | null, onSent?: () => void) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const onSentRef = useRef(onSent);
+  onSentRef.current = onSent;
+
+  useEffect(() => {
+    loadOutbox().then(setEntries);
+    return subscribeOutbox(setEntries);
+  }, []);
+
+  const hasPending = entries.some((e) => e.state === 'pending');
+
+  const syncNow = useCallback(async () => {
+    if (!apiUrl) return null;
+    const result = await replayOutbox(apiUrl);
+    if (result.sent > 0) onSentRef.current?.();
+    if (result.kotErrors.length && !reportedReplays.has(result)) {
+      reportedReplays.add(result);
+      Alert.alert('KOT Not Printed', `${result.kotErrors.join('\n')}\nPlease tell the kitchen.`);
+    }
+    return result;
+  }, [apiUrl]);
+
+  useEffect(() => {
+    if (!apiUrl || !hasPending) return;
+    syncNow();
+    const timer = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [apiUrl, hasPending, syncNow]);
+
+  const pendingTables = useMemo(() => getPendingTables(entries), [entries]);
+
+  return { entries, pendingTables, syncNow };
+}
@@ -0,0 +1,100 @@
+import * as Haptics from 'expo-haptics';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useBillEvents } from '@/hooks/use-bill-events';
+import type { PrepStatus } from '@/services/api-types';
+import { getSummaryPrepStatus } from '@/services/prep-status';
+import { getEventTableNumber, type BillEvent } from '@/services/realtime';
+import { ACTIVE_BILL_STATUSES, fetchFloorStatuses, summarizeBill } from '@/services/table-status';
+
+// Tables whose food turned ready and that nobody has dismissed yet, shared by
+// the watcher on the tabs layout and the screens that show the banners
+let readyTables: number[] = [];
+const listeners = new Set<(tables: number[]) => void>();
+
+const setReadyTables = (tables: number[]) => {
+  readyTables = tables;
+  listeners.forEach((listener) => listener(tables));
+};
+
+/**
+ * Watches the kitchen status of every table and buzzes when one turns ready.
+ * Mounted once on the tabs layout, so it keeps watching while the captain is
+ * on the order screen. The first fresh fetch is the baseline (cached statuses
+ * are never compared), and tables that were not in the previous map (a bill
+ * that just appeared) never count as newly ready, so opening the app does not
+ * buzz.
+ */
+export function useReadyAlerts(enabled: boolean) {
+  const statuses = useRef<Map<number, PrepStatus> | null>(null);
+
+  const update = useCallback((next: Map<number, PrepStatus>) => {
+    const prev = statuses.current;
+    statuses.current = next;
+    if (!prev) return;
+
+    const newlyReady = [...next]
+      .filter(([table, status]) => status === 'ready' && prev.has(table) && prev.get(table) !== 'ready')
+      .map(([table]) => table);
+    const stillReady = readyTables.filter((table) => next.get(table) === 'ready' && !newlyReady.includes(table));
+    setReadyTables([...stillReady, ...newlyReady]);
+    if (newlyReady.length) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch((err) =>
+        console.warn('Haptic feedback failed:', err)
+      );
+    }
+  }, []);
+
+  const refresh = useCallback(() => {
+    fetchFloorStatuses()
+      .then(({ statuses: summaries }) =>
+        update(new Map([...summaries].map(([table, summary]) => [table, getSummaryPrepStatus(summary)])))
+      )
+      .catch((err) => console.warn('Failed to fetch kitchen statuses:', err?.message || err));
+  }, [update]);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  const handleBillEvent = useCallback(
+    ({ bill }: BillEvent) => {
+      const tableNumber = getEventTableNumber(bill);
+      if (!tableNumber) return;
+      // No baseline yet; the fetch becomes it
+      if (!statuses.current) {
+        refresh();
+        return;
+      }
+      const next = new Map(statuses.current);
+      if (ACTIVE_BILL_STATUSES.includes(bill.status)) {
+        next.set(tableNumber, getSummaryPrepStatus(summarizeBill(tableNumber, bill)));
+      } else {
+        next.delete(tableNumber);
+      }
+      update(next);
+    },
+    [refresh, update]
+  );
+
+  useBillEvents(enabled, handleBillEvent, refresh);
+}
+
+// The tables to show a "food is ready" banner for, and a way to dismiss one
+export function useReadyTables() {
+  const [tables, setTables] = useState(readyTables);
+
+  useEffect(() => {
+    listeners.add(setTables);
+    setTables(readyTables);
+    return () => {
+      listeners.delete(setTables);
+    };
+  }, []);
+
+  const dismiss = useCallback((table: number) => {
+    setReadyTables(readyTables.filter((t) => t !== table));
+  }, []);
+
+  return { readyTables: tables, dismiss };
+}
@@ -0,0 +1,232 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios, { type AxiosRequestConfig } from 'axios';
+
+import type {
+  BillMutationResponse,
+  BillNumberResponse,
+  Category,
+  CreateBillRequest,
+  HealthResponse,
+  LoginRequest,
+  LoginResponse,
+  OpenOrderListResponse,
+  Product,
+  ProductListRequest,
+  RoundingMode,
+  StaffListResponse,
+  TableAssignmentListResponse,
+  TableCountResponse,
+  TableStatusListResponse,
+  TableStatusResponse,
+  TaxSettings,
+  TokenNumberResponse,
+  UpdateBillRequest,
+  UpdateBillStatusRequest,
+} from '@/services/api-types';
+import type { FloorPlan } from '@/services/floor-plan';
+import { notifySessionExpired } from '@/services/session';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const HEALTH_TIMEOUT_MS = 5000;
+
+/**
+ * Every failed API call is rethrown as an ApiError so screens can rely on a
+ * readable `message`, the HTTP `status` (undefined when there was no response)
+ * and `isNetworkError` without poking at axios internals.
+ */
+export class ApiError extends Error {
+  status?: number;
+  data?: any;
+  isNetworkError: boolean;
+
+  constructor(message: string, options: { status?: number; data?: any; isNetworkError?: boolean } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.data = options.data;
+    this.isNetworkError = options.isNetworkError ?? false;
+  }
+}
+
+export const toApiError = (err: unknown): ApiError => {
+  if (err instanceof ApiError) return err;
+  if (axios.isAxiosError(err)) {
+    if (!err.response) {
+      return new ApiError(
+        err.code === 'ECONNABORTED'
+          ? 'The server took too long to respond.'
+          : 'Unable to reach the server. Check your network.',
+        { isNetworkError: true }
+      );
+    }
+    const data: any = err.response.data;
+    return new ApiError(data?.message || data?.msg || err.message || 'Request failed', {
+      status: err.response.status,
+      data,
+    });
+  }
+  return new ApiError((err as any)?.message || 'Unknown error');
+};
+
+// A request that never got a response (Wi-Fi down, server unreachable, timeout)
+export const isNetworkError = (err: unknown) => toApiError(err).isNetworkError;
+
+// 401 on an authenticated call: the root layout is already prompting for a
+// re-login, so screens should not show their own failure alert on top of it
+export const isAuthError = (err: unknown) => toApiError(err).status === 401;
+
+export const getServerUrl = () => AsyncStorage.getItem('server_ip');
+
+// Back office spellings ('nearest_0.50', 'round', 'up', ...) mapped onto RoundingMode;
+// anything unknown keeps the historical floor
+const toRoundingMode = (value: unknown): RoundingMode => {
+  const mode = String(value ?? '').trim().toLowerCase().replace(/[\s_]+/g, '-');
+  if (mode === 'none' || mode === 'off' || mode === 'exact') return 'none';
+  if (mode === 'ceil' || mode === 'up') return 'ceil';
+  if (mode === 'nearest' || mode === 'round') return 'nearest';
+  if (/^nearest-0?\.50?$/.test(mode) || mode === 'nearest-50-paise') return 'nearest-0.5';
+  return 'floor';
+};
+
+interface RequestOptions {
+  // Override the saved `server_ip`, e.g. while probing a host before saving it
+  baseUrl?: string;
+  auth?: boolean;
+  timeout?: number;
+}
+
+const request = async <T>(config: AxiosRequestConfig, options: RequestOptions = {}): Promise<T> => {
+  const baseUrl = options.baseUrl ?? (await getServerUrl());
+  if (!baseUrl) {
+    throw new ApiError('Server IP not configured. Please login first.');
+  }
+
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (config.data !== undefined) headers['Content-Type'] = 'application/json';
+  if (options.auth !== false) {
+    const token = await AsyncStorage.getItem('token');
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await axios.request<T>({
+      ...config,
+      baseURL: baseUrl,
+      timeout: options.timeout ?? DEFAULT_TIMEOUT_MS,
+      headers: { ...headers, ...(config.headers as Record<string, string>) },
+    });
+    return response.data;
+  } catch (err) {
+    const apiErr = toApiError(err);
+    if (apiErr.status === 401 && options.auth !== false) {
+      notifySessionExpired();
+    }
+    throw apiErr;
+  }
+};
+
+export const api = {
+  health: (baseUrl?: string) =>
+    request<HealthResponse>({ method: 'GET', url: '/api/health' }, { baseUrl, auth: false, timeout: HEALTH_TIMEOUT_MS }),
+
+  login: (body: LoginRequest, baseUrl?: string) =>
+    request<LoginResponse>({ method: 'POST', url: '/api/user/login', data: body }, { baseUrl, auth: false }),
+
+  getTableCount: () => request<TableCountResponse>({ method: 'GET', url: '/api/tables/currentCount' }),
+
+  getTableStatus: (tableNumber: number) =>
+    request<TableStatusResponse>({ method: 'POST', url: '/api/bill/getTableStatus', data: { tableNumber } }),
+
+  // Active bills for every table in one call; 404 on servers that predate it
+  getTableStatuses: async () => {
+    const res = await request<TableStatusListResponse>({ method: 'GET', url: '/api/bill/tableStatuses' });
+    return res.data || [];
+  },
+
+  // Which captain has which table; 404 on servers that predate assignments
+  getTableAssignments: async () => {
+    const res = await request<TableAssignmentListResponse>({ method: 'GET', url: '/api/tables/assignments' });
+    return res.data || [];
+  },
+
+  // A null captain clears the table's assignment
+  assignTable: (tableNumber: number, captain: { id: string; name: string } | null) =>
+    request<unknown>({
+      method: 'PUT',
+      url: '/api/tables/assign',
+      data: { tableNumber, captainId: captain?.id ?? null, captainName: captain?.name ?? null },
+    }),
+
+  // Every staff account, for picking a table's captain
+  getStaff: async () => {
+    const res = await request<StaffListResponse>({ method: 'GET', url: '/api/user/staff' });
+    return res.data || [];
+  },
+
+  // Open takeaway and delivery bills; 404 on servers that predate them
+  getOpenOrders: async () => {
+    const res = await request<OpenOrderListResponse>({ method: 'GET', url: '/api/bill/openOrders' });
+    return res.data || [];
+  },
+
+  createBill: (body: CreateBillRequest) =>
+    request<BillMutationResponse>({ method: 'POST', url: '/api/bill/create', data: body }),
+
+  updateBill: (body: UpdateBillRequest) =>
+    request<BillMutationResponse>({ method: 'PUT', url: '/api/bill/update', data: body }),
+
+  updateBillStatus: (body: UpdateBillStatusRequest) =>
+    request<BillMutationResponse>({ method: 'PUT', url: '/api/bill/updateStatus', data: body }),
+
+  // Takes the next bill number and advances the sequence in one request, so
+  // two devices (or a device and an outbox replay) never get the same number
+  allocateBillNumber: () =>
+    request<BillNumberResponse>({ method: 'POST', url: '/api/billnumber/allocateBillNumber' }),
+
+  // Takes the next takeaway/delivery token and advances the sequence in one
+  // request, like bill numbers, so two devices never hand out the same token
+  allocateTokenNumber: () =>
+    request<TokenNumberResponse>({ method: 'POST', url: '/api/tokennumber/allocateTokenNumber' }),
+
+  // The restaurant's floor plan, shared by every device; null until a manager
+  // saves one. 404 on servers that predate it
+  getFloorPlan: async () => {
+    const res = await request<{ data: FloorPlan | null }>({ method: 'GET', url: '/api/floorplan' });
+    return res.data ?? null;
+  },
+
+  saveFloorPlan: (plan: FloorPlan) => request<unknown>({ method: 'PUT', url: '/api/floorplan', data: plan }),
+
+  getCategories: (statuses: string[] = ['active', 'inactive']) =>
+    request<Category[]>({ method: 'POST', url: '/api/category/status', data: { statuses } }),
+
+  getProducts: async (
+    body: ProductListRequest = { status: ['active', 'inactive'], categoryStatus: ['active'] }
+  ) => {
+    const res = await request<{ data: { products: Product[] } }>({ method: 'POST', url: '/api/product/all', data: body });
+    return res.data.products;
+  },
+
+  // The server has returned both `{ taxSettings: {...} }` and the bare settings object
+  getTaxSettings: async (): Promise<TaxSettings> => {
+    const res = await request<any>({ method: 'GET', url: '/api/tax/tax-get-settings' });
+    const ts = res?.taxSettings || res || {};
+    return {
+      cgst: parseFloat(ts.cgst) || 0,
+      sgst: parseFloat(ts.sgst) || 0,
+      serviceChargePercent: parseFloat(ts.serviceChargePercent ?? ts.serviceCharge) || 0,
+      taxSlabs: Array.isArray(ts.taxSlabs)
+        ? ts.taxSlabs
+            .filter((slab: any) => slab?.category)
+            .map((slab: any) => ({
+              category: String(slab.category),
+              ...(slab.name ? { name: String(slab.name) } : {}),
+              cgst: parseFloat(slab.cgst) || 0,
+              sgst: parseFloat(slab.sgst) || 0,
+            }))
+        : [],
+      roundingMode: toRoundingMode(ts.roundingMode ?? ts.rounding),
+      fssaiNumber: ts.fssaiNumber || ts.fssai || '',
+    };
+  },
+};
@@ -0,0 +1,338 @@
+// Request / response models for the Billingko backend. Field names follow the
+// server's JSON exactly (including its quirks such as `Basequantity`).
+
+export interface HealthResponse {
+  status: string; // 'UP' when the API is serving
+  database?: {
+    status: string; // 'Connected' when MongoDB is reachable
+  };
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface User {
+  _id: string;
+  name?: string;
+  email: string;
+  employeeType: string; // only 'staff' accounts may use the captain app
+}
+
+export interface LoginResponse {
+  token: string;
+  user: User;
+  msg?: string;
+}
+
+export interface TableCountResponse {
+  count: number;
+}
+
+export interface Category {
+  _id: string;
+  name: string;
+  status: string;
+}
+
+// One choice within a variant group, or one add-on; the delta is added to the base price
+export interface ProductOption {
+  _id?: string;
+  name: string;
+  priceDelta: number;
+}
+
+// e.g. "Portion": Half (-60) / Full (0); exactly one option is chosen
+export interface ProductVariantGroup {
+  name: string;
+  options: ProductOption[];
+}
+
+export interface Product {
+  _id: string;
+  name: string;
+  category: {
+    _id: string;
+    name: string;
+  };
+  status: string;
+  Basequantity?: number | string;
+  price?: number;
+  shortCode?: string | number; // menu number staff type to find the dish quickly
+  variantGroups?: ProductVariantGroup[];
+  addons?: ProductOption[]; // optional extras, any number may be chosen
+  taxCategory?: string; // TaxSlab.category; the global CGST/SGST apply when missing or unknown
+  taxInclusive?: boolean; // menu price already includes GST
+}
+
+export interface ProductListRequest {
+  status: string[];
+  categoryStatus: string[];
+}
+
+// How the payable amount is rounded from the exact total with tax
+export type RoundingMode = 'floor' | 'nearest' | 'nearest-0.5' | 'ceil' | 'none';
+
+// A GST rate products can be assigned to, e.g. { category: 'GST18', cgst: 9, sgst: 9 }
+export interface TaxSlab {
+  category: string;
+  name?: string;
+  cgst: number;
+  sgst: number;
+}
+
+export interface TaxSettings {
+  cgst: number; // default slab for products without a tax category
+  sgst: number;
+  taxSlabs?: TaxSlab[];
+  serviceChargePercent?: number; // 0 / missing when the restaurant does not charge one
+  roundingMode?: RoundingMode; // 'floor' when the server does not say
+  fssaiNumber?: string;
+}
+
+export type DiscountType = 'percent' | 'flat';
+
+// Every discount needs a reason and is approved by a manager's login
+export interface Discount {
+  type: DiscountType;
+  value: number; // percent (0-100) or rupees
+  reason: string;
+  approvedBy: string;
+  approvedAt: string;
+}
+
+// Tax a line was priced with, stamped on the bill item so later recomputations
+// (KOT updates, table merges) do not depend on the current menu
+export interface ItemTaxFields {
+  taxCategory?: string;
+  cgstRate?: number;
+  sgstRate?: number;
+  taxInclusive?: boolean;
+}
+
+// One row of the GST summary: every line taxed at the same rates
+export interface TaxBreakdownEntry {
+  cgstRate: number;
+  sgstRate: number;
+  taxableAmount: number;
+  cgst: number;
+  sgst: number;
+}
+
+// Bill-level adjustments, applied in this order: discount -> service charge -> tax
+export interface BillAdjustmentFields {
+  discount?: Discount | null;
+  discountAmount?: number;
+  serviceChargePercent?: number;
+  serviceCharge?: number;
+  taxableAmount?: number; // value before GST: discounted items (inclusive prices net of their tax) + service charge
+  taxBreakdown?: TaxBreakdownEntry[];
+  roundOff?: number; // payableAmount minus the exact total with tax; negative when rounded down
+}
+
+export type BillStatus = 'pending' | 'preparing' | 'ready' | 'completed' | 'bill-printed' | 'cancelled';
+
+export type BillItemStatus = 'active' | 'canceled';
+
+// Kitchen progress of a line, set by the kitchen display; missing means not
+// started. 'held' lines belong to a later course the captain has not fired yet.
+export type PrepStatus = 'held' | 'pending' | 'preparing' | 'ready' | 'served';
+
+export type Course = 'starters' | 'mains' | 'desserts';
+
+export interface BillItemUpdate {
+  changeType: 'add' | 'edit' | 'canceled' | 'hold' | 'fire';
+  quantity: number;
+  timestamp: string;
+  updatedBy: string | null;
+}
+
+// A variant or add-on as chosen on a bill line; `group` is set for variants
+export interface BillItemOption {
+  group?: string;
+  name: string;
+  priceDelta: number;
+}
+
+export interface BillItem extends ItemTaxFields {
+  _id?: string;
+  // populated product on reads, a bare id (or partial product) on writes
+  productId: string | { _id: string; name?: string; category?: Product['category']; status?: string; price?: number };
+  name?: string;
+  quantity: number;
+  price: number;
+  subtotal?: number;
+  Basequantity?: number | string;
+  status?: BillItemStatus;
+  updates?: BillItemUpdate[];
+  variants?: BillItemOption[];
+  addons?: BillItemOption[];
+  modifiers?: string[]; // kitchen chips such as 'No onion'
+  notes?: string; // free-text instruction for the kitchen
+  seat?: number; // guest seat at the table, 1..covers
+  discount?: Discount; // line discount; `subtotal` is already net of it
+  discountAmount?: number;
+  station?: string; // kitchen station the line was sent to, e.g. 'Bar'
+  prepStatus?: PrepStatus;
+  course?: Course;
+}
+
+// Takeaway and delivery orders have a token number instead of a table
+export type OrderType = 'dine-in' | 'takeaway' | 'delivery';
+
+export type PaymentMethod = 'cash' | 'card' | 'upi';
+
+// One tender of a settlement; a bill paid part cash, part UPI has two
+export interface BillPayment {
+  method: PaymentMethod;
+  amount: number;
+  received?: number; // cash handed over, when more than `amount`
+  reference?: string; // card slip / UPI transaction id
+}
+
+export interface Bill extends BillAdjustmentFields {
+  _id: string;
+  billNumber: string;
+  paymentMethod: string; // a PaymentMethod, or 'mixed' when `payments` has several tenders
+  payments?: BillPayment[];
+  changeReturned?: number;
+  status: BillStatus;
+  orderType: string;
+  tableNumber?: number;
+  table?: number;
+  items: BillItem[];
+  totalAmount: number;
+  cgst: number;
+  sgst: number;
+  payableAmount: number;
+  customerName?: string;
+  customerPhone?: string;
+  customerAddress?: string; // delivery orders
+  tokenNumber?: number; // takeaway and delivery orders
+  covers?: number; // guests at the table, for spend per head
+  captainId?: string; // user id of the captain the table is assigned to
+  captainName?: string;
+  date?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  __v?: number; // mongoose version key, only bumped when a save() changes an array
+}
+
+export interface CreateBillRequest extends BillAdjustmentFields {
+  billNumber: string | null;
+  paymentMethod: string;
+  status: BillStatus;
+  orderType: string;
+  tableNumber: number | null;
+  table: number | null;
+  items: BillItem[];
+  totalAmount: number;
+  cgst: number;
+  sgst: number;
+  payableAmount: number;
+  date: string;
+  splitFrom?: string; // id of the table bill this one was split from
+  payments?: BillPayment[];
+  changeReturned?: number;
+  tokenNumber?: number;
+  customerName?: string;
+  customerPhone?: string;
+  customerAddress?: string;
+  covers?: number;
+  captainId?: string;
+  captainName?: string;
+}
+
+export interface UpdateBillRequest extends BillAdjustmentFields {
+  _id: string;
+  items: BillItem[];
+  totalAmount: number;
+  paymentMethod: string;
+  orderType: string;
+  status: BillStatus;
+  sgst: number;
+  cgst: number;
+  payableAmount: number;
+  customerName: string;
+  customerPhone: string;
+  updatedAt: string;
+  tableNumber?: number; // only when moving the bill to another table
+  table?: number;
+  payments?: BillPayment[];
+  changeReturned?: number;
+  tokenNumber?: number;
+  customerAddress?: string;
+  covers?: number;
+  captainId?: string;
+  captainName?: string;
+}
+
+export interface UpdateBillStatusRequest {
+  _id: string;
+  status: BillStatus;
+}
+
+export interface BillMutationResponse {
+  status?: string;
+  message?: string;
+  data?: Bill;
+}
+
+// `status: 'table-free'` means no bill exists for the table
+export interface TableStatusResponse {
+  status: 'success' | 'table-free' | string;
+  data?: Bill;
+  message?: string;
+}
+
+// One row of the bulk table status feed (newer servers only)
+export interface TableStatusSummary {
+  tableNumber: number;
+  billId: string;
+  billNumber: string;
+  status: BillStatus;
+  prepStatus?: PrepStatus; // from the items, when the summary was built from a full bill
+  itemCount: number;
+  runningTotal: number; // payable amount so far, taxes included
+  captainId?: string;
+  captainName?: string;
+  updatedAt?: string;
+}
+
+// A table handed to a captain; kept apart from bills so a free table can be assigned too
+export interface TableAssignment {
+  tableNumber: number;
+  captainId: string;
+  captainName: string;
+}
+
+export interface TableAssignmentListResponse {
+  status: string;
+  data: TableAssignment[];
+}
+
+export interface StaffListResponse {
+  status: string;
+  data: User[];
+}
+
+export interface TableStatusListResponse {
+  status: string;
+  data: TableStatusSummary[];
+}
+
+export interface OpenOrderListResponse {
+  status: string;
+  data: Bill[];
+}
+
+export interface BillNumberResponse {
+  currentBillNumber: string;
+  number: number;
+}
+
+// Next takeaway/delivery token; the server restarts the sequence every day
+export interface TokenNumberResponse {
+  number: number;
+}
@@ -0,0 +1,64 @@
+import Zeroconf, { type Service } from 'react-native-zeroconf';
+
+// The Billingko backend advertises itself as a plain HTTP service on the LAN.
+// We browse `_http._tcp` and keep only services that identify as Billingko,
+// either by name or by an `app=billingko` TXT record.
+const SERVICE_TYPE = 'http';
+const SERVICE_PROTOCOL = 'tcp';
+const SERVICE_DOMAIN = 'local.';
+const BILLINGKO_PATTERN = /billingko/i;
+
+export interface DiscoveredBackend {
+  name: string;
+  host: string;
+  url: string; // same shape staff type by hand, e.g. http://192.168.1.10:5000
+}
+
+export const isBillingkoService = (service: Service) =>
+  BILLINGKO_PATTERN.test(service.name || '') ||
+  BILLINGKO_PATTERN.test(String(service.txt?.app || ''));
+
+// Prefer an IPv4 address: Android's HTTP stack and the cleartext allow-list
+// are both set up for 192.168.x.x / 10.x.x.x style hosts.
+export const toBackendUrl = (service: Service) => {
+  const ipv4 = service.addresses?.find((a) => /^\d+\.\d+\.\d+\.\d+$/.test(a));
+  const host = ipv4 || service.addresses?.[0] || service.host?.replace(/\.$/, '');
+  if (!host || !service.port) return null;
+  const scheme = String(service.txt?.scheme || 'http');
+  return `${scheme}://${host.includes(':') ? `[${host}]` : host}:${service.port}`;
+};
+
+/**
+ * Browse the LAN for Billingko backends. `onFound` fires once per resolved
+ * service; the returned function stops the scan and releases the listeners.
+ * Throws when the native module is missing (e.g. running inside Expo Go).
+ */
+export const browseBackends = (
+  onFound: (backend: DiscoveredBackend) => void,
+  onError: (err: Error) => void
+) => {
+  const zeroconf = new Zeroconf();
+
+  zeroconf.on('resolved', (service) => {
+    if (!isBillingkoService(service)) return;
+    const url = toBackendUrl(service);
+    if (url) onFound({ name: service.name, host: service.host, url });
+  });
+  zeroconf.on('error', onError);
+
+  try {
+    zeroconf.scan(SERVICE_TYPE, SERVICE_PROTOCOL, SERVICE_DOMAIN);
+  } catch (err) {
+    zeroconf.removeDeviceListeners();
+    throw err;
+  }
+
+  return () => {
+    try {
+      zeroconf.stop();
+    } catch (err) {
+      console.warn('Failed to stop backend discovery:', err);
+    }
+    zeroconf.removeDeviceListeners();
+  };
+};
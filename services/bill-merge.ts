@@ -0,0 +1,90 @@
+import type { Bill, BillItem } from '@/services/api-types';
+import { describeLineOptions, getLineKey } from '@/services/order-lines';
+
+// Optimistic concurrency for KOT updates: the order screen remembers the bill
+// it last fetched (the "base"), and before sending an update compares it with
+// the server's current copy. If someone else saved in between, the captain is
+// shown both sets of changes and our edits are replayed on top of theirs.
+
+// Either stamp moving means someone saved: mongoose leaves `__v` alone on
+// `findByIdAndUpdate` and most `save()` calls, so `updatedAt` is the usual signal
+export const isBillChanged = (base: Bill, current: Bill) => {
+  if (base._id !== current._id) return true;
+  if (typeof base.__v === 'number' && typeof current.__v === 'number' && base.__v !== current.__v) {
+    return true;
+  }
+  return !!base.updatedAt && !!current.updatedAt && base.updatedAt !== current.updatedAt;
+};
+
+export const getItemProductId = (item: BillItem) =>
+  typeof item.productId === 'string' ? item.productId : item.productId?._id;
+
+const getItemName = (item: BillItem) => {
+  const name = (typeof item.productId === 'string' ? undefined : item.productId?.name) || item.name || '';
+  const options = describeLineOptions(item);
+  return options ? `${name} (${options})` : name;
+};
+
+export const getItemLineKey = (item: BillItem) => {
+  const pid = getItemProductId(item);
+  return pid ? getLineKey(pid, item) : null;
+};
+
+export interface ProductQuantity {
+  name: string;
+  quantity: number;
+}
+
+// Active (not cancelled) quantity per order line (see getLineKey) on a bill
+export const quantitiesByLine = (bill: Bill | null) => {
+  const result = new Map<string, ProductQuantity>();
+  (bill?.items || []).forEach((item) => {
+    const key = getItemLineKey(item);
+    if (!key) return;
+    const entry = result.get(key) ?? { name: getItemName(item), quantity: 0 };
+    if (item.status !== 'canceled') entry.quantity += item.quantity || 0;
+    if (!entry.name) entry.name = getItemName(item);
+    result.set(key, entry);
+  });
+  return result;
+};
+
+export interface MergeRow {
+  key: string; // order line key
+  name: string;
+  base: number; // quantity when we fetched the bill
+  theirs: number; // quantity on the server now
+  ours: number; // quantity we are about to send
+  merged: number; // theirs with our change applied on top
+}
+
+// Our change relative to the base, applied to their quantity
+export const mergeQuantity = (base: number, theirs: number, ours: number) =>
+  Math.max(0, theirs + (ours - base));
+
+/**
+ * One row per order line that either side touched since the base bill. `ours`
+ * is the quantity per line the captain has on screen.
+ */
+export const buildMergeRows = (base: Bill, current: Bill, ours: Map<string, ProductQuantity>): MergeRow[] => {
+  const baseQty = quantitiesByLine(base);
+  const theirQty = quantitiesByLine(current);
+  const keys = new Set([...baseQty.keys(), ...theirQty.keys(), ...ours.keys()]);
+
+  const rows: MergeRow[] = [];
+  keys.forEach((key) => {
+    const b = baseQty.get(key)?.quantity ?? 0;
+    const t = theirQty.get(key)?.quantity ?? 0;
+    const o = ours.get(key)?.quantity ?? 0;
+    if (t === b && o === b) return;
+    rows.push({
+      key,
+      name: ours.get(key)?.name || theirQty.get(key)?.name || baseQty.get(key)?.name || '',
+      base: b,
+      theirs: t,
+      ours: o,
+      merged: mergeQuantity(b, t, o),
+    });
+  });
+  return rows.sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,122 @@
+import type { Bill, BillItem, TaxSettings } from '@/services/api-types';
+import { describeDiscount, getBillItemTaxLines, getLineNet } from '@/services/bill-totals';
+import { EMPTY_FLOOR_PLAN, type FloorPlan } from '@/services/floor-plan';
+import { describeLineOptions } from '@/services/order-lines';
+import { PAYMENT_METHODS } from '@/services/payments';
+import { getOrderLabel, isTakeawayBill } from '@/services/takeaway-orders';
+
+// What goes on the customer's bill, laid out once so the on-screen preview and
+// the thermal printer (services/escpos.ts) print the same thing.
+
+export interface ReceiptItem {
+  name: string;
+  details?: string; // variants, add-ons, line discount
+  quantity: number;
+  rate: number;
+  amount: number; // net of the line discount
+}
+
+export interface ReceiptRow {
+  label: string;
+  amount: number;
+  emphasis?: boolean; // the grand total
+}
+
+export interface Receipt {
+  title: string;
+  billNumber: string;
+  orderLabel: string | null; // 'Table 4', 'Delivery #7'
+  customer: string[]; // name, phone and address of takeaway and delivery customers
+  date: string;
+  items: ReceiptItem[];
+  totals: ReceiptRow[];
+  payments: ReceiptRow[];
+  fssaiNumber?: string;
+}
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// 18/10/2026 21:05, regardless of the device locale
+export const formatReceiptDate = (value?: string) => {
+  const date = value ? new Date(value) : new Date();
+  const d = Number.isNaN(date.getTime()) ? new Date() : date;
+  return `${pad2(d.getDate())}/${pad2(d.getMonth() + 1)}/${d.getFullYear()} ${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+};
+
+const itemName = (item: BillItem) =>
+  (typeof item.productId === 'string' ? undefined : item.productId?.name) || item.name || 'Item';
+
+const toReceiptItem = (item: BillItem): ReceiptItem => {
+  const options = describeLineOptions(item);
+  const details = [options, item.discount ? describeDiscount(item.discount) : ''].filter(Boolean).join(' · ');
+  return {
+    name: itemName(item),
+    ...(details ? { details } : {}),
+    quantity: item.quantity || 0,
+    rate: item.price || 0,
+    amount: item.subtotal ?? getLineNet(item.price || 0, item.quantity || 0, item.discount),
+  };
+};
+
+const methodLabel = (method: string) => PAYMENT_METHODS.find((m) => m.id === method)?.label ?? method;
+
+// `plan` names the table the way the floor plan labels it
+export const buildReceipt = (
+  bill: Bill,
+  taxSettings: Pick<TaxSettings, 'cgst' | 'sgst' | 'fssaiNumber'>,
+  plan: FloorPlan = EMPTY_FLOOR_PLAN
+): Receipt => {
+  const totals: ReceiptRow[] = [{ label: 'Subtotal', amount: bill.totalAmount || 0 }];
+  if (bill.discountAmount) {
+    totals.push({
+      label: bill.discount ? `Discount (${bill.discount.reason})` : 'Discount',
+      amount: -bill.discountAmount,
+    });
+  }
+  if (bill.serviceCharge) {
+    totals.push({ label: `Service charge ${bill.serviceChargePercent || 0}%`, amount: bill.serviceCharge });
+  }
+  // Tax-inclusive prices already contain their GST, so subtotal plus GST
+  // would overshoot the total: show what the GST was charged on instead
+  const inclusiveLines = getBillItemTaxLines(bill.items, taxSettings).filter((line) => line.inclusive);
+  if (inclusiveLines.length && bill.taxableAmount != null) {
+    totals.push({ label: 'Taxable amount', amount: bill.taxableAmount });
+  }
+  // Bills saved before per-slab taxes only have the global rates
+  const slabs = bill.taxBreakdown?.length
+    ? bill.taxBreakdown
+    : [{ cgstRate: taxSettings.cgst, sgstRate: taxSettings.sgst, cgst: bill.cgst || 0, sgst: bill.sgst || 0 }];
+  slabs.forEach((slab) => {
+    const incl = inclusiveLines.some((line) => line.cgstRate === slab.cgstRate && line.sgstRate === slab.sgstRate)
+      ? ' (incl.)'
+      : '';
+    totals.push({ label: `CGST ${slab.cgstRate}%${incl}`, amount: slab.cgst });
+    totals.push({ label: `SGST ${slab.sgstRate}%${incl}`, amount: slab.sgst });
+  });
+  if (bill.roundOff) {
+    totals.push({ label: 'Round off', amount: bill.roundOff });
+  }
+  totals.push({ label: 'Total', amount: bill.payableAmount || 0, emphasis: true });
+
+  const payments: ReceiptRow[] = (bill.payments || []).map((p) => ({
+    label: p.reference ? `${methodLabel(p.method)} (${p.reference})` : methodLabel(p.method),
+    amount: p.amount,
+  }));
+  if (bill.changeReturned) {
+    payments.push({ label: 'Change returned', amount: bill.changeReturned });
+  }
+
+  return {
+    title: bill.status === 'completed' ? 'TAX INVOICE' : 'BILL (NOT PAID)',
+    billNumber: bill.billNumber || '',
+    orderLabel: getOrderLabel(bill, plan),
+    customer: isTakeawayBill(bill)
+      ? [bill.customerName, bill.customerPhone, bill.customerAddress].filter((v): v is string => !!v)
+      : [],
+    date: formatReceiptDate(bill.date || bill.createdAt),
+    items: bill.items.filter((item) => item.status !== 'canceled' && (item.quantity || 0) > 0).map(toReceiptItem),
+    totals,
+    payments,
+    ...(taxSettings.fssaiNumber ? { fssaiNumber: taxSettings.fssaiNumber } : {}),
+  };
+};
@@ -0,0 +1,75 @@
+import { api, ApiError } from '@/services/api-client';
+import type { Bill, BillPayment, CreateBillRequest } from '@/services/api-types';
+import { billToUpdateRequest } from '@/services/bill-updates';
+import { toPaymentFields } from '@/services/payments';
+
+// Splitting one table's order into separate bills. Every line is shared by
+// one or more guests; a shared line's quantity is divided evenly between
+// them (fractions allowed, e.g. 0.5 of a pizza each), and the last guest
+// takes the rounding remainder so the split always adds up to the order.
+
+const QTY_PRECISION = 1000;
+
+const roundQty = (qty: number) => Math.round(qty * QTY_PRECISION) / QTY_PRECISION;
+
+// Every guest on every line
+export const equalAssignment = (lineCount: number, guests: number) =>
+  Array.from({ length: lineCount }, () => Array.from({ length: guests }, (_, g) => g));
+
+/**
+ * `assignment[i]` lists the guests (0-based) sharing line i. Returns one list
+ * of lines per guest with quantities divided; lines a guest does not share are
+ * left out, so a guest may end up with no lines at all.
+ */
+export const splitLines = <T extends { quantity: number }>(lines: T[], assignment: number[][], guests: number): T[][] => {
+  const result: T[][] = Array.from({ length: guests }, () => []);
+  lines.forEach((line, i) => {
+    const sharers = [...new Set(assignment[i] || [])].filter((g) => g >= 0 && g < guests).sort((a, b) => a - b);
+    if (sharers.length === 0) return;
+    const share = roundQty(line.quantity / sharers.length);
+    sharers.forEach((guest, idx) => {
+      const quantity = idx === sharers.length - 1 ? roundQty(line.quantity - share * (sharers.length - 1)) : share;
+      if (quantity > 0) result[guest].push({ ...line, quantity });
+    });
+  });
+  return result;
+};
+
+// Lines nobody has been assigned to; the split cannot be confirmed until empty
+export const unassignedLines = (assignment: number[][], lineCount: number) =>
+  Array.from({ length: lineCount }, (_, i) => i).filter((i) => !(assignment[i] || []).length);
+
+/**
+ * Create one pending bill per share, each with its own bill number, then
+ * cancel the table's running bill (`splitFrom`, if any). Nothing is paid
+ * yet: if any step fails, the split bills already created are cancelled
+ * again so the table is left with exactly the order it had.
+ */
+export const createSplitBills = async (shares: CreateBillRequest[], splitFrom: string | null): Promise<Bill[]> => {
+  const created: Bill[] = [];
+  try {
+    for (const share of shares) {
+      const { currentBillNumber } = await api.allocateBillNumber();
+      const res = await api.createBill({
+        ...share,
+        billNumber: currentBillNumber,
+        status: 'pending',
+        ...(splitFrom ? { splitFrom } : {}),
+      });
+      if (!res?.data?._id) throw new ApiError(`Bill ${currentBillNumber} was not returned by the server.`);
+      created.push(res.data);
+    }
+    if (splitFrom) await api.updateBillStatus({ _id: splitFrom, status: 'cancelled' });
+    return created;
+  } catch (err) {
+    await Promise.allSettled(created.map((bill) => api.updateBillStatus({ _id: bill._id, status: 'cancelled' })));
+    throw err;
+  }
+};
+
+// Settle one split bill with the tenders collected for it
+export const settleSplitBill = async (bill: Bill, tenders: BillPayment[]) => {
+  const settlement = { ...toPaymentFields(tenders, bill.payableAmount), status: 'completed' as const };
+  const res = await api.updateBill(billToUpdateRequest(bill, settlement));
+  return res?.data ?? { ...bill, ...settlement };
+};
@@ -0,0 +1,223 @@
+import type {
+  BillAdjustmentFields,
+  BillItem,
+  Discount,
+  ItemTaxFields,
+  Product,
+  RoundingMode,
+  TaxBreakdownEntry,
+  TaxSettings,
+} from '@/services/api-types';
+
+// Bill arithmetic shared by every screen that builds a bill payload, so the
+// order screen, table merge and split bills all agree on the payable amount.
+//
+// Order of application:
+//   line discounts -> subtotal (`totalAmount`)
+//   bill discount  -> shared across lines in proportion to their amount
+//   service charge on each line's pre-tax value (inclusive prices net of their GST)
+//   CGST/SGST per line at its own slab, on its pre-tax value plus service charge
+//   rounding mode from the tax settings -> payable, with the difference kept as round-off
+
+export interface BillAdjustments {
+  discount?: Discount | null;
+  serviceChargePercent?: number;
+}
+
+// One order line as far as tax is concerned; `amount` is net of its line discount
+export interface TaxLine {
+  amount: number;
+  cgstRate: number;
+  sgstRate: number;
+  inclusive: boolean;
+}
+
+export interface BillTotals {
+  subtotal: number;
+  discountAmount: number;
+  serviceCharge: number;
+  taxableAmount: number;
+  sgstAmount: number;
+  cgstAmount: number;
+  taxBreakdown: TaxBreakdownEntry[];
+  totalWithTax: number;
+  roundOff: number;
+  payableAmount: number;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Payable amount for the exact total; 'none' still settles to the paisa
+export const roundPayable = (total: number, mode: RoundingMode = 'floor') => {
+  // Strip float noise first so 100.00000001 does not ceil to 101
+  const exact = roundMoney(total);
+  switch (mode) {
+    case 'none':
+      return exact;
+    case 'ceil':
+      return Math.ceil(exact);
+    case 'nearest':
+      return Math.round(exact);
+    case 'nearest-0.5':
+      return Math.round(exact * 2) / 2;
+    default:
+      return Math.floor(exact);
+  }
+};
+
+// Rupee value of a discount on `base`; never more than the base itself
+export const getDiscountAmount = (base: number, discount?: Discount | null) => {
+  if (!discount || !(discount.value > 0) || base <= 0) return 0;
+  const raw = discount.type === 'percent' ? (base * Math.min(discount.value, 100)) / 100 : discount.value;
+  return roundMoney(Math.min(base, raw));
+};
+
+// Same discount as a percentage of `base`, so it can be shared out pro rata (split bills)
+export const toPercentDiscount = (discount: Discount, base: number): Discount =>
+  discount.type === 'percent' || base <= 0
+    ? discount
+    : { ...discount, type: 'percent', value: (Math.min(discount.value, base) / base) * 100 };
+
+// Short label such as "10% off" or "₹50.00 off"
+export const describeDiscount = (discount: Discount) =>
+  discount.type === 'percent' ? `${Number(discount.value.toFixed(2))}% off` : `₹${discount.value.toFixed(2)} off`;
+
+// Compares what was approved, ignoring server-added fields such as `_id`
+export const isSameDiscount = (a?: Discount | null, b?: Discount | null) =>
+  (a?.type ?? null) === (b?.type ?? null) &&
+  (a?.value ?? null) === (b?.value ?? null) &&
+  (a?.reason ?? null) === (b?.reason ?? null) &&
+  (a?.approvedBy ?? null) === (b?.approvedBy ?? null);
+
+// Net amount of one line: price x quantity less its line discount
+export const getLineNet = (price: number, quantity: number, discount?: Discount | null) => {
+  const gross = price * quantity;
+  return gross - getDiscountAmount(gross, discount);
+};
+
+// Slab for a product: its tax category if the settings know it, else the global rates
+export const getProductTax = (
+  product: Pick<Product, 'taxCategory' | 'taxInclusive'>,
+  taxSettings: Pick<TaxSettings, 'cgst' | 'sgst' | 'taxSlabs'>
+): ItemTaxFields => {
+  const slab = product.taxCategory ? taxSettings.taxSlabs?.find((s) => s.category === product.taxCategory) : undefined;
+  return {
+    ...(slab ? { taxCategory: slab.category } : {}),
+    cgstRate: slab ? slab.cgst : taxSettings.cgst || 0,
+    sgstRate: slab ? slab.sgst : taxSettings.sgst || 0,
+    taxInclusive: !!product.taxInclusive,
+  };
+};
+
+// Rates stamped on a bill item, or undefined for items saved before per-line rates
+export const getItemTaxFields = (item: ItemTaxFields): ItemTaxFields | undefined =>
+  item.cgstRate == null && item.sgstRate == null
+    ? undefined
+    : {
+        ...(item.taxCategory ? { taxCategory: item.taxCategory } : {}),
+        cgstRate: item.cgstRate ?? 0,
+        sgstRate: item.sgstRate ?? 0,
+        taxInclusive: !!item.taxInclusive,
+      };
+
+// Items saved before per-line rates existed fall back to the global rates
+export const toTaxLine = (
+  amount: number,
+  tax: ItemTaxFields,
+  taxSettings: Pick<TaxSettings, 'cgst' | 'sgst'>
+): TaxLine => ({
+  amount,
+  cgstRate: tax.cgstRate ?? (taxSettings.cgst || 0),
+  sgstRate: tax.sgstRate ?? (taxSettings.sgst || 0),
+  inclusive: !!tax.taxInclusive,
+});
+
+// Tax lines of a bill's items, cancelled lines excluded
+export const getBillItemTaxLines = (items: BillItem[], taxSettings: Pick<TaxSettings, 'cgst' | 'sgst'>) =>
+  items
+    .filter((item) => item.status !== 'canceled')
+    .map((item) => toTaxLine(getLineNet(item.price || 0, item.quantity || 0, item.discount), item, taxSettings));
+
+export const computeBillTotals = (
+  lines: TaxLine[],
+  taxSettings: Pick<TaxSettings, 'roundingMode'>,
+  adjustments: BillAdjustments = {}
+): BillTotals => {
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const discountAmount = getDiscountAmount(subtotal, adjustments.discount);
+  const keep = subtotal > 0 ? 1 - discountAmount / subtotal : 0;
+  const serviceRate = (adjustments.serviceChargePercent || 0) / 100;
+
+  let serviceCharge = 0;
+  let taxableAmount = 0;
+  let cgstAmount = 0;
+  let sgstAmount = 0;
+  const slabs = new Map<string, TaxBreakdownEntry>();
+  lines.forEach((line) => {
+    const discounted = line.amount * keep;
+    const preTax = line.inclusive ? discounted / (1 + (line.cgstRate + line.sgstRate) / 100) : discounted;
+    const lineService = preTax * serviceRate;
+    const taxable = preTax + lineService;
+    const cgst = (taxable * line.cgstRate) / 100;
+    const sgst = (taxable * line.sgstRate) / 100;
+
+    serviceCharge += lineService;
+    taxableAmount += taxable;
+    cgstAmount += cgst;
+    sgstAmount += sgst;
+
+    const key = `${line.cgstRate}/${line.sgstRate}`;
+    const entry = slabs.get(key) ?? { cgstRate: line.cgstRate, sgstRate: line.sgstRate, taxableAmount: 0, cgst: 0, sgst: 0 };
+    entry.taxableAmount += taxable;
+    entry.cgst += cgst;
+    entry.sgst += sgst;
+    slabs.set(key, entry);
+  });
+
+  const totalWithTax = taxableAmount + cgstAmount + sgstAmount;
+  const payableAmount = roundPayable(totalWithTax, taxSettings.roundingMode);
+  const roundOff = roundMoney(payableAmount - totalWithTax);
+  const taxBreakdown = [...slabs.values()]
+    .sort((a, b) => a.cgstRate + a.sgstRate - (b.cgstRate + b.sgstRate))
+    .map((entry) => ({
+      ...entry,
+      taxableAmount: roundMoney(entry.taxableAmount),
+      cgst: roundMoney(entry.cgst),
+      sgst: roundMoney(entry.sgst),
+    }));
+  return {
+    subtotal,
+    discountAmount,
+    serviceCharge: roundMoney(serviceCharge),
+    taxableAmount,
+    sgstAmount,
+    cgstAmount,
+    taxBreakdown,
+    totalWithTax,
+    roundOff,
+    payableAmount,
+  };
+};
+
+// Bill fields for the adjustments and the totals they produced
+export const toAdjustmentFields = (adjustments: BillAdjustments, totals: BillTotals): BillAdjustmentFields => ({
+  discount: adjustments.discount ?? null,
+  discountAmount: totals.discountAmount,
+  serviceChargePercent: adjustments.serviceChargePercent || 0,
+  serviceCharge: totals.serviceCharge,
+  taxableAmount: totals.taxableAmount,
+  taxBreakdown: totals.taxBreakdown,
+  roundOff: totals.roundOff,
+});
+
+export const getBillAdjustments = (bill: BillAdjustmentFields): BillAdjustments => ({
+  discount: bill.discount ?? null,
+  serviceChargePercent: bill.serviceChargePercent || 0,
+});
+
+// Subtotal of a bill's items net of line discounts, cancelled lines excluded
+export const getItemsSubtotal = (items: BillItem[]) =>
+  items.reduce(
+    (sum, item) => sum + (item.status !== 'canceled' ? getLineNet(item.price || 0, item.quantity || 0, item.discount) : 0),
+    0
+  );
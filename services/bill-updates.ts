@@ -0,0 +1,33 @@
+import type { Bill, UpdateBillRequest } from '@/services/api-types';
+
+// Full /api/bill/update payload for a bill as the server sent it, with the
+// given fields replaced. The endpoint overwrites the whole bill, so anything
+// not listed here would be lost.
+export const billToUpdateRequest = (bill: Bill, overrides: Partial<UpdateBillRequest> = {}): UpdateBillRequest => ({
+  _id: bill._id,
+  items: bill.items,
+  totalAmount: bill.totalAmount,
+  paymentMethod: bill.paymentMethod || 'cash',
+  orderType: bill.orderType || 'dine-in',
+  status: bill.status,
+  sgst: bill.sgst,
+  cgst: bill.cgst,
+  payableAmount: bill.payableAmount,
+  customerName: bill.customerName || '',
+  customerPhone: bill.customerPhone || '',
+  ...(bill.customerAddress ? { customerAddress: bill.customerAddress } : {}),
+  ...(bill.tokenNumber != null ? { tokenNumber: bill.tokenNumber } : {}),
+  ...(bill.covers ? { covers: bill.covers } : {}),
+  ...(bill.captainId ? { captainId: bill.captainId, captainName: bill.captainName || '' } : {}),
+  ...(bill.payments ? { payments: bill.payments } : {}),
+  ...(bill.changeReturned != null ? { changeReturned: bill.changeReturned } : {}),
+  discount: bill.discount ?? null,
+  discountAmount: bill.discountAmount ?? 0,
+  serviceChargePercent: bill.serviceChargePercent ?? 0,
+  serviceCharge: bill.serviceCharge ?? 0,
+  ...(bill.taxableAmount != null ? { taxableAmount: bill.taxableAmount } : {}),
+  ...(bill.taxBreakdown ? { taxBreakdown: bill.taxBreakdown } : {}),
+  ...(bill.roundOff != null ? { roundOff: bill.roundOff } : {}),
+  updatedAt: new Date().toISOString(),
+  ...overrides,
+});
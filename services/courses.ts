@@ -0,0 +1,65 @@
+import type { BillItem, BillItemUpdate, Course } from '@/services/api-types';
+
+// Courses let a table's later dishes wait: lines of a course after the one
+// being served go to the bill as 'held' and reach the kitchen only when the
+// captain fires that course. Lines without a course are never held.
+
+export const COURSES: Course[] = ['starters', 'mains', 'desserts'];
+
+export const COURSE_LABELS: Record<Course, string> = {
+  starters: 'Starters',
+  mains: 'Mains',
+  desserts: 'Desserts',
+};
+
+// No course -> Starters -> Mains -> Desserts -> no course
+export const nextCourse = (course?: Course): Course | undefined =>
+  course ? COURSES[COURSES.indexOf(course) + 1] : COURSES[0];
+
+const isActive = (item: BillItem) => item.status !== 'canceled' && (item.quantity || 0) > 0;
+
+export const isHeldItem = (item: BillItem) => isActive(item) && item.prepStatus === 'held';
+
+/**
+ * The course the kitchen is on: the latest course already fired on the bill,
+ * or for a table that has not fired one yet, the earliest course among the
+ * lines being sent now.
+ */
+export const getFiringCourse = (billItems: BillItem[], newCourses: (Course | undefined)[]): Course | undefined => {
+  const fired = billItems.filter((i) => isActive(i) && i.course && !isHeldItem(i)).map((i) => COURSES.indexOf(i.course!));
+  if (fired.length) return COURSES[Math.max(...fired)];
+  const incoming = newCourses.filter((c): c is Course => !!c).map((c) => COURSES.indexOf(c));
+  return incoming.length ? COURSES[Math.min(...incoming)] : undefined;
+};
+
+export const shouldHoldCourse = (course: Course | undefined, firing: Course | undefined) =>
+  !!course && !!firing && COURSES.indexOf(course) > COURSES.indexOf(firing);
+
+// Held courses in serving order, with how many portions wait in each
+export const getHeldCourses = (items: BillItem[]) =>
+  COURSES.map((course) => ({
+    course,
+    quantity: items.filter((i) => i.course === course && isHeldItem(i)).reduce((sum, i) => sum + (i.quantity || 0), 0),
+  })).filter((c) => c.quantity > 0);
+
+// Release a held course to the kitchen, recording the fire on each line's history
+export const fireCourse = (items: BillItem[], course: Course, updatedBy: string | null): BillItem[] => {
+  const timestamp = new Date().toISOString();
+  return items.map((item) => {
+    if (item.course !== course || !isHeldItem(item)) return item;
+    const update: BillItemUpdate = { changeType: 'fire', quantity: item.quantity, timestamp, updatedBy };
+    return { ...item, prepStatus: 'pending', updates: [...(item.updates || []), update] };
+  });
+};
+
+// A new order fires its earliest course; the later ones go to the bill held,
+// with the hold on each line's history as a KOT update records it
+export const holdLaterCourses = (items: BillItem[], updatedBy: string | null): BillItem[] => {
+  const firing = getFiringCourse([], items.map((i) => i.course));
+  const timestamp = new Date().toISOString();
+  return items.map((item) => {
+    if (!shouldHoldCourse(item.course, firing)) return item;
+    const update: BillItemUpdate = { changeType: 'hold', quantity: item.quantity, timestamp, updatedBy };
+    return { ...item, prepStatus: 'held', updates: [...(item.updates || []), update] };
+  });
+};
@@ -0,0 +1,186 @@
+import type { Receipt } from '@/services/bill-receipt';
+import { formatReceiptDate } from '@/services/bill-receipt';
+import type { Kot } from '@/services/kot';
+
+// ESC/POS byte streams for 58/80 mm network thermal printers. Only the
+// commands every Epson-compatible printer understands are used: initialise,
+// alignment, bold, double size, reverse, feed and cut. Text is sent as plain
+// ASCII; anything else (₹, accented names) is transliterated or replaced.
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export const RECEIPT_COLUMNS_58MM = 32;
+export const RECEIPT_COLUMNS_80MM = 48;
+
+type Align = 'left' | 'center' | 'right';
+
+const ALIGN_CODES: Record<Align, number> = { left: 0, center: 1, right: 2 };
+
+// Printer code pages do not have the rupee sign
+export const toPrintableText = (text: string) =>
+  text
+    .replace(/₹/g, 'Rs.')
+    .replace(/[×✕]/g, 'x')
+    .replace(/·/g, '-')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e\n]/g, '?');
+
+// Splits on spaces where possible; long words are cut at the column width
+export const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    let rest = word;
+    while (rest.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width);
+    }
+    if (!current) current = rest;
+    else if (current.length + 1 + rest.length <= width) current = `${current} ${rest}`;
+    else {
+      lines.push(current);
+      current = rest;
+    }
+  });
+  if (current) lines.push(current);
+  return lines.length ? lines : [''];
+};
+
+// Left text and right text on one line, the left side truncated if they do not fit
+export const formatRow = (left: string, right: string, width: number) => {
+  const space = Math.max(1, width - right.length);
+  const leftText = left.length >= space ? left.slice(0, space - 1) : left;
+  return leftText + ' '.repeat(width - leftText.length - right.length) + right;
+};
+
+/**
+ * Small command builder; call `bytes()` at the end for the stream to send.
+ * `columns` is the number of normal-size characters per line.
+ */
+export const createEscPos = (columns: number = RECEIPT_COLUMNS_58MM) => {
+  const out: number[] = [ESC, 0x40]; // initialise
+
+  const builder = {
+    columns,
+    text(text: string) {
+      for (const ch of toPrintableText(text)) out.push(ch.charCodeAt(0));
+      return builder;
+    },
+    line(text = '') {
+      builder.text(text);
+      out.push(LF);
+      return builder;
+    },
+    wrapped(text: string, indent = 0) {
+      wrapText(text, columns - indent).forEach((part) => builder.line(' '.repeat(indent) + part));
+      return builder;
+    },
+    row(left: string, right: string) {
+      return builder.line(formatRow(toPrintableText(left), toPrintableText(right), columns));
+    },
+    divider(char = '-') {
+      return builder.line(char.repeat(columns));
+    },
+    align(align: Align) {
+      out.push(ESC, 0x61, ALIGN_CODES[align]);
+      return builder;
+    },
+    bold(on: boolean) {
+      out.push(ESC, 0x45, on ? 1 : 0);
+      return builder;
+    },
+    // Double width and height; only half as many characters fit on a line
+    large(on: boolean) {
+      out.push(GS, 0x21, on ? 0x11 : 0x00);
+      return builder;
+    },
+    // White on black
+    reverse(on: boolean) {
+      out.push(GS, 0x42, on ? 1 : 0);
+      return builder;
+    },
+    feed(lines = 1) {
+      out.push(ESC, 0x64, Math.max(0, Math.min(255, lines)));
+      return builder;
+    },
+    // Feed past the tear bar, then partial cut
+    cut() {
+      out.push(GS, 0x56, 0x42, 0x03);
+      return builder;
+    },
+    bytes() {
+      return Uint8Array.from(out);
+    },
+  };
+  return builder;
+};
+
+const money = (amount: number) => amount.toFixed(2);
+
+export const encodeReceipt = (receipt: Receipt, columns: number = RECEIPT_COLUMNS_58MM) => {
+  const p = createEscPos(columns);
+
+  p.align('center').bold(true).large(true).line(receipt.title).large(false).bold(false);
+  if (receipt.fssaiNumber) p.line(`FSSAI No: ${receipt.fssaiNumber}`);
+  p.align('left').divider();
+  p.row(`Bill: ${receipt.billNumber}`, receipt.orderLabel ?? '');
+  p.line(receipt.date);
+  receipt.customer.forEach((line) => p.wrapped(line));
+  p.divider();
+
+  receipt.items.forEach((item) => {
+    p.wrapped(item.name);
+    if (item.details) p.wrapped(item.details, 2);
+    p.row(`  ${item.quantity} x ${money(item.rate)}`, money(item.amount));
+  });
+  p.divider();
+
+  receipt.totals.forEach((row) => {
+    if (row.emphasis) {
+      p.divider('=').bold(true).row(row.label.toUpperCase(), `Rs. ${money(row.amount)}`).bold(false);
+    } else {
+      p.row(row.label, money(row.amount));
+    }
+  });
+
+  if (receipt.payments.length) {
+    p.divider();
+    receipt.payments.forEach((row) => p.row(row.label, money(row.amount)));
+  }
+
+  p.divider().align('center').line('Thank you! Visit again').align('left');
+  return p.feed(3).cut().bytes();
+};
+
+// Kitchen copy: large table number and quantities so the pass can read it at a
+// glance. Thermal printers cannot strike text through, so cancelled lines are
+// printed inverted with a CANCEL tag instead.
+export const encodeKot = (kot: Kot, columns: number = RECEIPT_COLUMNS_58MM) => {
+  const p = createEscPos(columns);
+
+  p.align('center').bold(true).line(`${kot.station.toUpperCase()} ${kot.isUpdate ? 'KOT - UPDATE' : 'KOT'}`);
+  p.large(true).line(kot.orderLabel.toUpperCase()).large(false).bold(false);
+  if (kot.note) p.reverse(true).bold(true).line(` ${kot.note} `).bold(false).reverse(false);
+  p.align('left').divider();
+  p.row(`KOT #${kot.kotNumber}`, kot.billNumber ? `Bill ${kot.billNumber}` : '');
+  p.row(formatReceiptDate(kot.time), kot.captainName);
+  p.divider();
+
+  kot.lines.forEach((line) => {
+    if (line.cancelled) {
+      p.reverse(true).bold(true).line(`CANCEL ${line.quantity} x ${line.name}`.slice(0, columns)).bold(false).reverse(false);
+    } else {
+      p.large(true).line(`${line.quantity} x`).large(false).bold(true).wrapped(line.name, 2).bold(false);
+    }
+    if (line.details) p.wrapped(line.details, 4);
+  });
+
+  return p.divider().feed(3).cut().bytes();
+};
@@ -0,0 +1,164 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { api, toApiError } from '@/services/api-client';
+
+// The restaurant's floor: named sections (AC hall, terrace, bar) holding the
+// server's tables under their own labels, with a seating capacity and a spot
+// on the section's grid. Bills still refer to the server's table numbers; the
+// plan only changes how tables are named and laid out. A manager edits it and
+// the server stores it for every device; each device keeps the last copy it
+// fetched for when the server cannot be reached. Servers without floor plan
+// support leave each device with its own plan.
+
+const FLOOR_PLAN_KEY = 'floor_plan';
+
+export const DEFAULT_CAPACITY = 4;
+
+// Columns of the grid tables are placed on, and of the plain 1..N layout
+export const MAX_COLUMNS = 6;
+const DEFAULT_COLUMNS = 3;
+
+// Holds the server's tables that the saved plan does not place
+export const OTHER_SECTION = 'Other tables';
+const ALL_TABLES_SECTION = 'All tables';
+
+export interface FloorTable {
+  tableNumber: number; // the server's table, as on bills
+  label: string; // e.g. 'T4', 'Bar 2'
+  capacity: number;
+  row: number;
+  col: number; // 0..MAX_COLUMNS - 1
+}
+
+export interface FloorSection {
+  name: string;
+  tables: FloorTable[];
+}
+
+export interface FloorPlan {
+  sections: FloorSection[];
+}
+
+export const EMPTY_FLOOR_PLAN: FloorPlan = { sections: [] };
+
+// Set once the server answers 404/405 for the floor plan, like the bulk table feed
+let serverUnsupported = false;
+
+const isUnsupported = (err: unknown) => {
+  const status = toApiError(err).status;
+  return status === 404 || status === 405;
+};
+
+const loadSavedPlan = async (): Promise<FloorPlan> => {
+  try {
+    const saved = JSON.parse((await AsyncStorage.getItem(FLOOR_PLAN_KEY)) || 'null');
+    return Array.isArray(saved?.sections) ? saved : EMPTY_FLOOR_PLAN;
+  } catch (err) {
+    console.warn('Failed to read floor plan:', err);
+    return EMPTY_FLOOR_PLAN;
+  }
+};
+
+// The server's plan, or the device's copy when the server has none or is out of reach
+export const loadFloorPlan = async (): Promise<FloorPlan> => {
+  if (!serverUnsupported) {
+    try {
+      const plan = await api.getFloorPlan();
+      if (Array.isArray(plan?.sections)) {
+        AsyncStorage.setItem(FLOOR_PLAN_KEY, JSON.stringify(plan)).catch((err) =>
+          console.warn('Failed to cache floor plan:', err)
+        );
+        return plan;
+      }
+    } catch (err) {
+      if (isUnsupported(err)) serverUnsupported = true;
+      else console.warn('Failed to fetch floor plan, using the saved copy:', toApiError(err).message);
+    }
+  }
+  return loadSavedPlan();
+};
+
+/**
+ * Save the plan on the server and on this device. Resolves to false when the
+ * server cannot store floor plans, so the plan only applies to this device.
+ */
+export const saveFloorPlan = async (plan: FloorPlan) => {
+  const sections = plan.sections
+    .filter((s) => s.name.trim() && s.tables.length > 0)
+    .map((s) => ({
+      name: s.name.trim(),
+      tables: s.tables.map((t) => ({
+        ...t,
+        label: t.label.trim() || String(t.tableNumber),
+        capacity: t.capacity > 0 ? t.capacity : DEFAULT_CAPACITY,
+      })),
+    }));
+  let shared = false;
+  if (!serverUnsupported) {
+    try {
+      await api.saveFloorPlan({ sections });
+      shared = true;
+    } catch (err) {
+      if (!isUnsupported(err)) throw err;
+      serverUnsupported = true;
+    }
+  }
+  await AsyncStorage.setItem(FLOOR_PLAN_KEY, JSON.stringify({ sections }));
+  return shared;
+};
+
+// First free cell, row by row
+export const nextFreeSpot = (tables: FloorTable[], columns = DEFAULT_COLUMNS) => {
+  const taken = new Set(tables.map((t) => `${t.row}:${t.col}`));
+  for (let i = 0; ; i++) {
+    const spot = { row: Math.floor(i / columns), col: i % columns };
+    if (!taken.has(`${spot.row}:${spot.col}`)) return spot;
+  }
+};
+
+export const newFloorTable = (tableNumber: number, placed: FloorTable[]): FloorTable => ({
+  tableNumber,
+  label: String(tableNumber),
+  capacity: DEFAULT_CAPACITY,
+  ...nextFreeSpot(placed),
+});
+
+/**
+ * The saved plan fitted to the tables the server has now: tables that no
+ * longer exist are dropped and new ones are added to OTHER_SECTION. Without a
+ * saved plan this is one section with tables 1..N, three to a row, as the
+ * grid has always been.
+ */
+export const resolveFloorPlan = (plan: FloorPlan, tableNumbers: number[]): FloorPlan => {
+  const existing = new Set(tableNumbers);
+  const sections = plan.sections
+    .map((s) => ({ ...s, tables: s.tables.filter((t) => existing.has(t.tableNumber)) }))
+    .filter((s) => s.tables.length > 0);
+  const placed = new Set(sections.flatMap((s) => s.tables.map((t) => t.tableNumber)));
+  const missing = tableNumbers.filter((n) => !placed.has(n));
+  if (missing.length) {
+    const others = sections.find((s) => s.name === OTHER_SECTION);
+    const tables = others?.tables ?? [];
+    missing.forEach((n) => tables.push(newFloorTable(n, tables)));
+    if (!others) sections.push({ name: sections.length ? OTHER_SECTION : ALL_TABLES_SECTION, tables });
+  }
+  return { sections };
+};
+
+export const findFloorTable = (plan: FloorPlan, tableNumber: number) =>
+  plan.sections.flatMap((s) => s.tables).find((t) => t.tableNumber === tableNumber);
+
+// "Table 4" for a plain numbered table, the label itself otherwise ("Bar 2")
+export const getTableName = (plan: FloorPlan, tableNumber: number) => {
+  const label = findFloorTable(plan, tableNumber)?.label;
+  return label && label !== String(tableNumber) ? label : `Table ${tableNumber}`;
+};
+
+// Rows of the section's grid, with null for empty cells
+export const getSectionGrid = (section: FloorSection) => {
+  const columns = Math.max(DEFAULT_COLUMNS, ...section.tables.map((t) => t.col + 1));
+  const rows = Math.max(0, ...section.tables.map((t) => t.row + 1));
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: columns }, (_, col) => section.tables.find((t) => t.row === row && t.col === col) ?? null)
+  );
+};
@@ -0,0 +1,204 @@
+import type { Bill, BillItem, Discount, ItemTaxFields, Product } from '@/services/api-types';
+import { getItemLineKey } from '@/services/bill-merge';
+import { getDiscountAmount, getLineNet, isSameDiscount } from '@/services/bill-totals';
+import { getFiringCourse, shouldHoldCourse } from '@/services/courses';
+import { lineKeyOf, unitPriceOf, type OrderItem } from '@/services/order-items';
+import { normalizeLineOptions } from '@/services/order-lines';
+
+// The items array of a KOT update. The server's bill is the starting point:
+// the quantities the captain wants per line are spread over its existing
+// items (so exact server ids are edited or cancelled), line discount edits are
+// applied, and lines added since the last KOT are appended with their update
+// records.
+
+export interface KotUpdateInput {
+  items: OrderItem[]; // the order as on screen
+  submittedItems: OrderItem[]; // submitted lines as last fetched
+  currentBill: Bill;
+  userId: string | null;
+  taxOf: (item: OrderItem) => ItemTaxFields;
+  stationOf: (product: Product) => string;
+}
+
+// `changed` is false when nothing about the items differs from the server's bill
+export const buildKotUpdateItems = ({
+  items,
+  submittedItems,
+  currentBill,
+  userId,
+  taxOf,
+  stationOf,
+}: KotUpdateInput): { items: BillItem[]; changed: boolean } => {
+  // Identify added items (addons)
+  const addedItems = items
+    .filter(item => item.itemStatus === 'addon' && item.quantity > 0)
+    .map((item) => {
+      const price = unitPriceOf(item);
+      return {
+        productId: item.product._id,
+        name: item.product.name,
+        quantity: item.quantity,
+        price: price,
+        discount: item.discount,
+        tax: taxOf(item),
+        station: stationOf(item.product),
+        course: item.course,
+        ...normalizeLineOptions(item),
+      };
+    });
+
+  // Identify edited items (original items with quantity changes or removed)
+  // We'll map desired quantities per product from the client and then
+  // distribute those desired quantities across the server-side bill items
+  // for that product so we update the exact server item ids (deterministic).
+  const editedItems: Array<{
+    itemId: string;
+    newQuantity: number;
+    changeType: 'edit' | 'canceled';
+  }> = [];
+
+  // Build desired quantity map per line (product + modifiers + notes) from client state
+  const desiredByLine = new Map<string, number>();
+  items.forEach(oi => {
+    const key = lineKeyOf(oi);
+    if (oi.itemStatus === 'original' || !oi.itemStatus) {
+      desiredByLine.set(key, oi.quantity || 0);
+    } else if (oi.itemStatus === 'removed') {
+      // If there's a removed entry but no explicit original entry, derive remaining from originalSubmittedItems
+      const orig = items.find(i => lineKeyOf(i) === key && (i.itemStatus === 'original' || !i.itemStatus));
+      if (orig) {
+        desiredByLine.set(key, orig.quantity || 0);
+      } else {
+        const submitted = submittedItems.find(o => lineKeyOf(o) === key);
+        const remaining = Math.max(0, (submitted?.quantity || 0) - (oi.quantity || 0));
+        desiredByLine.set(key, remaining);
+      }
+    }
+  });
+
+  // Group server bill items by line
+  const serverItemsByLine = new Map<string, any[]>();
+  currentBill.items.forEach((bi: any) => {
+    const key = getItemLineKey(bi);
+    if (!key) return;
+    if (!serverItemsByLine.has(key)) serverItemsByLine.set(key, []);
+    serverItemsByLine.get(key)!.push(bi);
+  });
+
+  // For each line present on the server, compute the new per-server-item quantities
+  serverItemsByLine.forEach((serverItems, key) => {
+    // Only consider active server items (skip already canceled)
+    const activeServerItems = serverItems.filter((s: any) => s.status !== 'canceled');
+    const desired = desiredByLine.has(key) ? desiredByLine.get(key)! : null;
+
+    // If desired is null, we still may not need to edit these items (no change)
+    if (desired === null) {
+      return;
+    }
+
+    let remaining = desired;
+    // Distribute remaining desired quantity into existing server items
+    for (const sItem of activeServerItems) {
+      const origQty = sItem.quantity || 0;
+      const assign = Math.min(origQty, remaining);
+      if (assign !== origQty) {
+        editedItems.push({
+          itemId: sItem._id,
+          newQuantity: assign,
+          changeType: assign === 0 ? 'canceled' : 'edit',
+        });
+      }
+      remaining = Math.max(0, remaining - assign);
+    }
+    // If remaining > 0, those extra quantities will be handled as addedItems (addons) elsewhere
+  });
+
+  // Line discounts changed on submitted lines, keyed by line
+  const discountEdits = new Map<string, Discount | undefined>();
+  items
+    .filter(oi => oi.itemStatus === 'original' || !oi.itemStatus)
+    .forEach(oi => {
+      const submitted = submittedItems.find(o => lineKeyOf(o) === lineKeyOf(oi));
+      if (!isSameDiscount(oi.discount, submitted?.discount)) discountEdits.set(lineKeyOf(oi), oi.discount);
+    });
+
+  // Map existing items with their updates (following web app logic)
+  const updatedExistingItems = currentBill.items.map((item: any) => {
+    const editedItem = editedItems.find((edit) => edit.itemId === item._id);
+
+    if (editedItem) {
+      // Create new update record for the item
+      const newUpdate = {
+        changeType: editedItem.changeType,
+        quantity: Math.abs(editedItem.newQuantity - item.quantity),
+        timestamp: new Date().toISOString(),
+        updatedBy: userId || null,
+      };
+
+      // Return item with updates, maintaining zero quantity for canceled items
+      return {
+        ...item,
+        quantity: editedItem.newQuantity,
+        subtotal: editedItem.newQuantity * item.price,
+        updates: [...(item.updates || []), newUpdate],
+        // Keep canceled items with quantity 0
+        status: editedItem.changeType === 'canceled' ? 'canceled' : 'active',
+      };
+    }
+    return item;
+  });
+
+  // Keep canceled items in the array but with quantity 0. Apply line discount
+  // changes (a flat discount sits on the line's first active item only) and
+  // keep every subtotal net of its discount.
+  const discountedLines = new Set<string>();
+  const processedItems = updatedExistingItems.map((item: any) => {
+    if (item.status === 'canceled') return { ...item, quantity: 0, subtotal: 0 };
+    const key = getItemLineKey(item);
+    let discount: Discount | undefined = item.discount;
+    if (key && discountEdits.has(key)) {
+      const edit = discountEdits.get(key);
+      discount = edit && (edit.type === 'percent' || !discountedLines.has(key)) ? edit : undefined;
+      discountedLines.add(key);
+    }
+    const gross = item.quantity * item.price;
+    const discountAmount = getDiscountAmount(gross, discount);
+    return { ...item, discount: discount ?? null, discountAmount, subtotal: gross - discountAmount };
+  });
+
+  // Format new items with initial update records; courses after the one
+  // the kitchen is on are held until fired
+  const firingCourse = getFiringCourse(currentBill.items, addedItems.map((item) => item.course));
+  const newItemsFormatted = addedItems.map((item) => {
+    const price = item.price;
+    const held = shouldHoldCourse(item.course, firingCourse);
+    const timestamp = new Date().toISOString();
+    return {
+      productId: {
+        _id: item.productId,
+        name: item.name,
+      },
+      quantity: item.quantity,
+      price: price,
+      subtotal: getLineNet(price, item.quantity, item.discount),
+      status: 'active',
+      station: item.station,
+      ...(item.course ? { course: item.course } : {}),
+      ...(held ? { prepStatus: 'held' as const } : {}),
+      ...normalizeLineOptions(item),
+      ...item.tax,
+      ...(item.discount
+        ? { discount: item.discount, discountAmount: getDiscountAmount(price * item.quantity, item.discount) }
+        : {}),
+      updates: [
+        { changeType: 'add', quantity: item.quantity, timestamp, updatedBy: userId || null },
+        ...(held ? [{ changeType: 'hold', quantity: item.quantity, timestamp, updatedBy: userId || null }] : []),
+      ],
+    };
+  });
+
+  return {
+    items: [...processedItems, ...newItemsFormatted],
+    changed: addedItems.length > 0 || editedItems.length > 0 || discountEdits.size > 0,
+  };
+};
@@ -0,0 +1,155 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { BillItem } from '@/services/api-types';
+import { getItemLineKey } from '@/services/bill-merge';
+import { encodeKot } from '@/services/escpos';
+import { describeLineOptions } from '@/services/order-lines';
+import { parsePrinterAddress, sendToPrinter } from '@/services/printer';
+import { loadCaptainName } from '@/services/session';
+import { getItemStation, loadStationConfig, type StationConfig } from '@/services/stations';
+
+// Kitchen order tickets printed by the app: each submission or KOT update
+// prints only what changed since the kitchen last heard about the table, one
+// ticket per station (services/stations.ts).
+
+const KOT_SEQUENCE_KEY = 'kot_sequence';
+
+export interface KotLine {
+  key: string; // order line key
+  name: string;
+  details?: string; // variants, add-ons, modifiers and notes
+  quantity: number; // always positive; see `cancelled`
+  cancelled: boolean;
+  station: string;
+}
+
+export interface Kot {
+  kotNumber: number;
+  station: string;
+  billNumber: string | null;
+  orderLabel: string; // 'Table 4', 'Takeaway #12'
+  captainName: string;
+  time: string;
+  isUpdate: boolean; // false for the first ticket of a bill
+  note?: string; // e.g. 'FIRE MAINS'
+  lines: KotLine[];
+}
+
+const itemName = (item: BillItem) =>
+  (typeof item.productId === 'string' ? undefined : item.productId?.name) || item.name || 'Item';
+
+// Active quantity per order line, with a representative item for the name and options
+const activeLines = (items: BillItem[]) => {
+  const result = new Map<string, { item: BillItem; quantity: number }>();
+  items.forEach((item) => {
+    const key = getItemLineKey(item);
+    if (!key) return;
+    const entry = result.get(key) ?? { item, quantity: 0 };
+    // Held courses are not the kitchen's business until they are fired
+    if (item.status !== 'canceled' && item.prepStatus !== 'held') entry.quantity += item.quantity || 0;
+    result.set(key, entry);
+  });
+  return result;
+};
+
+// New lines and increases first, then cancellations, each in bill order
+export const getKotLines = (before: BillItem[], after: BillItem[], stations: StationConfig): KotLine[] => {
+  const old = activeLines(before);
+  const now = activeLines(after);
+  const lines: KotLine[] = [];
+  new Set([...now.keys(), ...old.keys()]).forEach((key) => {
+    const entry = now.get(key) ?? old.get(key)!;
+    const delta = (now.get(key)?.quantity ?? 0) - (old.get(key)?.quantity ?? 0);
+    if (delta === 0) return;
+    const details = describeLineOptions(entry.item);
+    lines.push({
+      key,
+      name: itemName(entry.item),
+      ...(details ? { details } : {}),
+      quantity: Math.abs(delta),
+      cancelled: delta < 0,
+      station: getItemStation(entry.item, stations),
+    });
+  });
+  return [...lines.filter((l) => !l.cancelled), ...lines.filter((l) => l.cancelled)];
+};
+
+// Device-local running number, restarting every day
+export const nextKotNumber = async () => {
+  const today = new Date().toDateString();
+  let number = 1;
+  try {
+    const saved = JSON.parse((await AsyncStorage.getItem(KOT_SEQUENCE_KEY)) || 'null');
+    if (saved?.date === today) number = (saved.number || 0) + 1;
+  } catch (err) {
+    console.warn('Failed to read KOT sequence:', err);
+  }
+  await AsyncStorage.setItem(KOT_SEQUENCE_KEY, JSON.stringify({ date: today, number }));
+  return number;
+};
+
+/**
+ * Print the KOTs for a submission (`before` empty) or an update: one ticket
+ * per station. Resolves to the tickets printed (none when nothing changed or
+ * no station has a printer at all); rejects naming the stations whose ticket
+ * did not print, including stations with lines but no printer.
+ */
+export const printKot = async ({
+  before,
+  after,
+  orderLabel,
+  billNumber,
+  note,
+}: {
+  before: BillItem[];
+  after: BillItem[];
+  orderLabel: string;
+  billNumber: string | null;
+  note?: string;
+}): Promise<Kot[]> => {
+  const config = await loadStationConfig();
+  const lines = getKotLines(before, after, config);
+  const addresses = new Map(config.stations.map((station) => [station.name, parsePrinterAddress(station.printerAddress)]));
+  // Without any printer the kitchen does not work from printed tickets
+  if (![...addresses.values()].some(Boolean)) return [];
+
+  // Configured stations in order, then any a sent line still names but that was removed since
+  const withLines = new Set(lines.map((line) => line.station));
+  const stationNames = [...new Set([...addresses.keys(), ...withLines])].filter((name) => withLines.has(name));
+  const failed = stationNames
+    .filter((name) => !addresses.get(name))
+    .map((name) => `${name}: no printer set up`);
+  const targets = stationNames
+    .filter((name) => addresses.get(name))
+    .map((name) => ({
+      station: name,
+      address: addresses.get(name),
+      lines: lines.filter((line) => line.station === name),
+    }));
+
+  const captainName = (await loadCaptainName()) || '';
+  const isUpdate = before.some((item) => item.status !== 'canceled');
+  const printed: Kot[] = [];
+  // One at a time so the sequence numbers follow the print order
+  for (const target of targets) {
+    const kot: Kot = {
+      kotNumber: await nextKotNumber(),
+      station: target.station,
+      billNumber,
+      orderLabel,
+      captainName,
+      time: new Date().toISOString(),
+      isUpdate,
+      ...(note ? { note } : {}),
+      lines: target.lines,
+    };
+    try {
+      await sendToPrinter(target.address!, encodeKot(kot));
+      printed.push(kot);
+    } catch (err: any) {
+      failed.push(`${target.station}: ${err?.message || 'print failed'}`);
+    }
+  }
+  if (failed.length) throw new Error(failed.join('\n'));
+  return printed;
+};
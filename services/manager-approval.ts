@@ -0,0 +1,13 @@
+import { api } from '@/services/api-client';
+import type { User } from '@/services/api-types';
+
+// Account types allowed to approve; every other type (staff, cashier, ...) is refused
+const APPROVER_TYPES = ['manager', 'admin'];
+
+// Managers approve discounts and floor plan changes by entering their login on
+// the captain's device. The login only checks the approval; the captain stays
+// signed in. Resolves to null when the account is not a manager's or an admin's.
+export const approveAsManager = async (email: string, password: string): Promise<User | null> => {
+  const { user } = await api.login({ email, password });
+  return APPROVER_TYPES.includes(user.employeeType) ? user : null;
+};
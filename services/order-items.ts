@@ -0,0 +1,211 @@
+import type { Bill, BillItem, Course, Discount, ItemTaxFields, PrepStatus, Product } from '@/services/api-types';
+import {
+  getItemLineKey,
+  getItemProductId,
+  mergeQuantity,
+  quantitiesByLine,
+  type ProductQuantity,
+} from '@/services/bill-merge';
+import { getItemTaxFields, getLineNet, isSameDiscount, type BillAdjustments } from '@/services/bill-totals';
+import {
+  describeLineOptions,
+  getLineKey,
+  getOptionsPriceDelta,
+  getUnitPrice,
+  normalizeLineOptions,
+} from '@/services/order-lines';
+import { getLinePrepStatus } from '@/services/prep-status';
+
+// Order rows as the order screen keeps them: submitted lines mapped back from
+// the bill, plus the captain's unsent additions and removals on top.
+
+export type ItemStatus = 'original' | 'addon' | 'removed';
+
+export interface OrderItem {
+  product: Product;
+  quantity: number;
+  itemStatus?: ItemStatus; // 'original' = submitted to kitchen, 'addon' = added later, 'removed' = removed from order
+  originalQuantity?: number; // Track original quantity before removal
+  localId?: string; // local client id to uniquely identify list entries
+  serverItemIds?: string[]; // IDs of server-side bill items that this client item aggregates
+  modifiers?: string[]; // kitchen chips, e.g. 'No onion'
+  notes?: string; // free-text kitchen note
+  discount?: Discount; // manager-approved line discount; not part of the line key
+  tax?: ItemTaxFields; // rates stamped on the submitted bill item; unsent lines use the product's slab
+  station?: string; // kitchen station a submitted line was sent to
+  prepStatus?: PrepStatus; // kitchen progress of a submitted line, when the kitchen tracks items
+  course?: Course;
+  seat?: number; // guest seat; part of the line key like the kitchen notes
+}
+
+// Rows with the same product but different modifiers/notes are separate lines
+export const lineKeyOf = (item: OrderItem) => getLineKey(item.product._id, item);
+
+// Unit price of a line: product base price plus its variant/add-on deltas
+export const unitPriceOf = (item: OrderItem) => getUnitPrice(item.product, item);
+
+// Line amount after its own discount
+export const lineNetOf = (item: OrderItem) => getLineNet(unitPriceOf(item), item.quantity, item.discount);
+
+// Quantity per order line the captain currently has on screen (removed rows excluded)
+export const onScreenQuantities = (items: OrderItem[]) => {
+  const result = new Map<string, ProductQuantity>();
+  items
+    .filter(i => i.itemStatus !== 'removed')
+    .forEach(i => {
+      const key = lineKeyOf(i);
+      const options = describeLineOptions(i);
+      const entry = result.get(key) ?? { name: options ? `${i.product.name} (${options})` : i.product.name, quantity: 0 };
+      entry.quantity += i.quantity;
+      result.set(key, entry);
+    });
+  return result;
+};
+
+// Bill item prices already include the variant/add-on deltas; the product
+// keeps the base price so unitPriceOf does not count them twice
+export const productFromBillItem = (pid: string, item: BillItem): Product => {
+  const populated = typeof item.productId === 'string' ? undefined : item.productId;
+  return {
+    _id: pid,
+    name: populated?.name || item.name || '',
+    category: populated?.category || { _id: '', name: '' },
+    status: populated?.status || 'active',
+    price: item.price ? item.price - getOptionsPriceDelta(item) : populated?.price || 0,
+  };
+};
+
+// A fetched bill as order rows: server items aggregated by line (product +
+// options + notes) so the same line never shows twice, with cancelled
+// quantities as a separate 'removed' row
+export const billToOrderItems = (items: BillItem[]): OrderItem[] => {
+  const itemsByLine = new Map<string, BillItem[]>();
+  items.forEach((bi) => {
+    const key = getItemLineKey(bi);
+    if (!key) return;
+    if (!itemsByLine.has(key)) itemsByLine.set(key, []);
+    itemsByLine.get(key)!.push(bi);
+  });
+
+  const mappedItems: OrderItem[] = [];
+  itemsByLine.forEach((group, key) => {
+    const pid = getItemProductId(group[0])!;
+    const options = normalizeLineOptions(group[0]);
+    const active = group.filter(g => g.status !== 'canceled' && (g.quantity || 0) > 0);
+    const canceled = group.filter(g => g.status === 'canceled');
+
+    if (active.length > 0) {
+      const totalQty = active.reduce((s, it) => s + (it.quantity || 0), 0);
+      const discount = active.find(a => a.discount)?.discount;
+      const tax = getItemTaxFields(active[0]);
+      const station = active.find(a => a.station)?.station;
+      const prepStatus = active.some(a => a.prepStatus) ? getLinePrepStatus(active) : undefined;
+      const course = active.find(a => a.course)?.course;
+      mappedItems.push({
+        product: productFromBillItem(pid, active[0]),
+        ...options,
+        ...(discount ? { discount } : {}),
+        ...(tax ? { tax } : {}),
+        ...(station ? { station } : {}),
+        ...(prepStatus ? { prepStatus } : {}),
+        ...(course ? { course } : {}),
+        quantity: totalQty,
+        itemStatus: 'original',
+        localId: `srv-${key}`,
+        serverItemIds: active.map(a => a._id).filter((id): id is string => !!id),
+        originalQuantity: totalQty,
+      });
+    }
+
+    if (canceled.length > 0) {
+      const canceledTotal = canceled.reduce((s, it) => s + (it.quantity || 0), 0);
+      mappedItems.push({
+        product: productFromBillItem(pid, canceled[0]),
+        ...options,
+        quantity: 0,
+        itemStatus: 'removed',
+        localId: `srv-removed-${key}`,
+        serverItemIds: canceled.map(c => c._id).filter((id): id is string => !!id),
+        originalQuantity: canceledTotal,
+      });
+    }
+  });
+  return mappedItems;
+};
+
+/**
+ * Replay the captain's edits (relative to `base`) on top of the bill someone
+ * else saved (`current`): their quantities become the submitted originals and
+ * our difference becomes addon / removed rows, as if we had just opened it.
+ */
+export const rebaseOrderItems = (items: OrderItem[], base: Bill, current: Bill) => {
+  const baseQty = quantitiesByLine(base);
+  const theirQty = quantitiesByLine(current);
+  const ours = onScreenQuantities(items);
+
+  const rebased: OrderItem[] = [];
+  const originals: OrderItem[] = [];
+  new Set([...theirQty.keys(), ...ours.keys()]).forEach((key) => {
+    const theirs = theirQty.get(key)?.quantity ?? 0;
+    const merged = mergeQuantity(baseQty.get(key)?.quantity ?? 0, theirs, ours.get(key)?.quantity ?? 0);
+    const serverItems = current.items.filter(bi => getItemLineKey(bi) === key && bi.status !== 'canceled');
+    const local = items.find(i => lineKeyOf(i) === key);
+    const pid = local?.product._id ?? (serverItems[0] ? getItemProductId(serverItems[0]) : undefined);
+    const product = local?.product ?? (pid && serverItems[0] ? productFromBillItem(pid, serverItems[0]) : null);
+    if (!pid || !product) return;
+    const options = normalizeLineOptions(local ?? serverItems[0]);
+    // Our line discount if we changed it since the base, otherwise theirs
+    const baseDiscount = base.items.find(bi => getItemLineKey(bi) === key && bi.status !== 'canceled' && bi.discount)?.discount;
+    const theirDiscount = serverItems.find(bi => bi.discount)?.discount;
+    const discount = local && !isSameDiscount(local.discount, baseDiscount) ? local.discount : theirDiscount;
+    const tax = local?.tax ?? (serverItems[0] ? getItemTaxFields(serverItems[0]) : undefined);
+    const station = serverItems.find(bi => bi.station)?.station;
+    const prepStatus = serverItems.some(bi => bi.prepStatus) ? getLinePrepStatus(serverItems) : undefined;
+    const course = local?.course ?? serverItems.find(bi => bi.course)?.course;
+
+    if (theirs > 0) {
+      const original: OrderItem = {
+        product,
+        ...options,
+        ...(discount ? { discount } : {}),
+        ...(tax ? { tax } : {}),
+        ...(station ? { station } : {}),
+        ...(prepStatus ? { prepStatus } : {}),
+        ...(course ? { course } : {}),
+        quantity: Math.min(merged, theirs),
+        itemStatus: 'original',
+        localId: `srv-${key}`,
+        serverItemIds: serverItems.map(bi => bi._id).filter((id): id is string => !!id),
+        originalQuantity: theirs,
+      };
+      rebased.push(original);
+      originals.push({ ...original, discount: theirDiscount, quantity: theirs });
+      if (merged < theirs) {
+        rebased.push({
+          product,
+          ...options,
+          quantity: theirs - merged,
+          itemStatus: 'removed',
+          originalQuantity: theirs,
+          localId: `srv-removed-${key}`,
+        });
+      }
+    }
+    if (merged > theirs) {
+      rebased.push({
+        product,
+        ...options,
+        ...(course ? { course } : {}),
+        quantity: merged - theirs,
+        itemStatus: 'addon',
+        localId: `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      });
+    }
+  });
+  return { items: rebased, originals };
+};
+
+// Bill discount or service charge differ from what the bill has
+export const isAdjustmentChanged = (adjustments: BillAdjustments, bill: Bill) =>
+  !isSameDiscount(adjustments.discount, bill.discount) ||
+  (adjustments.serviceChargePercent || 0) !== (bill.serviceChargePercent || 0);
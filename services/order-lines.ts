@@ -0,0 +1,99 @@
+import type { BillItemOption, Product } from '@/services/api-types';
+
+// What makes an order line distinct: the chosen variants (size, portion),
+// paid add-ons, the kitchen instructions and the guest's seat. Two lines of
+// the same product that differ in any of these are separate rows on the order
+// screen and separate items on the bill, so the kitchen and the bill see each one.
+
+export const KITCHEN_MODIFIERS = [
+  'No onion',
+  'No garlic',
+  'Less spicy',
+  'Extra spicy',
+  'Jain',
+  'Less oil',
+  'Serve after starters',
+  'Parcel',
+];
+
+export interface LineOptions {
+  variants?: BillItemOption[]; // one choice per variant group
+  addons?: BillItemOption[];
+  modifiers?: string[];
+  notes?: string;
+  seat?: number; // guest seat at the table
+}
+
+const normalizeModifiers = (modifiers?: string[]) =>
+  [...new Set((modifiers || []).map((m) => m.trim()).filter(Boolean))].sort();
+
+const optionLabel = (option: BillItemOption) => (option.group ? `${option.group}:${option.name}` : option.name);
+
+const normalizeChoices = (options?: BillItemOption[]) =>
+  [...(options || [])]
+    .filter((o) => o?.name)
+    .map((o) => ({ ...(o.group ? { group: o.group } : {}), name: o.name, priceDelta: Number(o.priceDelta) || 0 }))
+    .sort((a, b) => optionLabel(a).localeCompare(optionLabel(b)));
+
+// Drops empty values so plain lines serialize exactly as they did before
+export const normalizeLineOptions = (options: LineOptions): LineOptions => {
+  const variants = normalizeChoices(options.variants);
+  const addons = normalizeChoices(options.addons);
+  const modifiers = normalizeModifiers(options.modifiers);
+  const notes = options.notes?.trim();
+  const seat = Number.isInteger(options.seat) && options.seat! > 0 ? options.seat : undefined;
+  return {
+    ...(variants.length ? { variants } : {}),
+    ...(addons.length ? { addons } : {}),
+    ...(modifiers.length ? { modifiers } : {}),
+    ...(notes ? { notes } : {}),
+    ...(seat ? { seat } : {}),
+  };
+};
+
+// Identity of an order line: product plus its configuration
+export const getLineKey = (productId: string, options: LineOptions = {}) => {
+  const { variants, addons, modifiers, notes, seat } = normalizeLineOptions(options);
+  return [
+    productId,
+    (variants || []).map(optionLabel).join(','),
+    (addons || []).map(optionLabel).join(','),
+    (modifiers || []).join(','),
+    notes || '',
+    seat ?? '',
+  ].join('|');
+};
+
+export const hasLineOptions = (options: LineOptions) => {
+  const normalized = normalizeLineOptions(options);
+  return !!(normalized.variants || normalized.addons || normalized.modifiers || normalized.notes || normalized.seat);
+};
+
+// "Seat 2 · Full · + Extra cheese · No onion · birthday table, bring together"
+export const describeLineOptions = (options: LineOptions) => {
+  const { variants, addons, modifiers, notes, seat } = normalizeLineOptions(options);
+  return [
+    ...(seat ? [`Seat ${seat}`] : []),
+    ...(variants || []).map((v) => v.name),
+    ...(addons || []).map((a) => `+ ${a.name}`),
+    ...(modifiers || []),
+    ...(notes ? [notes] : []),
+  ].join(' · ');
+};
+
+// Sum of the variant and add-on price deltas on a line
+export const getOptionsPriceDelta = (options: LineOptions) =>
+  [...(options.variants || []), ...(options.addons || [])].reduce((sum, o) => sum + (Number(o.priceDelta) || 0), 0);
+
+// Price of one unit of the product in the given configuration
+export const getUnitPrice = (product: Product, options: LineOptions = {}) =>
+  (product.price ? Number(product.price) : 0) + getOptionsPriceDelta(options);
+
+export const hasConfigurableOptions = (product: Product) =>
+  !!(product.variantGroups?.some((g) => g.options?.length) || product.addons?.length);
+
+// Default configuration: first option of every variant group, no add-ons
+export const getDefaultVariants = (product: Product): BillItemOption[] =>
+  (product.variantGroups || [])
+    .filter((g) => g.options?.length)
+    .map((g) => ({ group: g.name, name: g.options[0].name, priceDelta: Number(g.options[0].priceDelta) || 0 }));
@@ -0,0 +1,286 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { api, isNetworkError } from '@/services/api-client';
+import type { Bill, BillItem, CreateBillRequest, UpdateBillRequest } from '@/services/api-types';
+import { getTableName, loadFloorPlan, type FloorPlan } from '@/services/floor-plan';
+import { printKot } from '@/services/kot';
+import { checkServerHealth } from '@/services/server-health';
+import { ACTIVE_BILL_STATUSES } from '@/services/table-status';
+
+// Persistent outbox for KOT submissions that could not reach the backend.
+// Stored next to `server_ip` / `token` so queued orders survive app restarts.
+const OUTBOX_KEY = 'order_outbox';
+
+export type OutboxEntryKind = 'create' | 'update';
+
+export type OutboxEntryState = 'pending' | 'conflict';
+
+// 'occupied': a queued new order found the table already open on the server
+// 'closed': the bill being updated was completed/cancelled meanwhile
+// 'changed': the bill was edited by someone else after we last fetched it
+export type OutboxConflict = 'occupied' | 'closed' | 'changed';
+
+export interface OutboxEntry {
+  id: string;
+  kind: OutboxEntryKind;
+  tableNumber: number;
+  billId?: string | null; // only for 'update' entries
+  payload: CreateBillRequest | UpdateBillRequest; // billData for 'create', updateData for 'update'
+  baseUpdatedAt?: string | null; // server bill `updatedAt` the update was built on
+  createdAt: string;
+  state: OutboxEntryState;
+  conflict?: OutboxConflict;
+  force?: boolean; // captain chose to overwrite the server bill
+  attempts: number;
+  lastError?: string;
+}
+
+export interface ReplayResult {
+  sent: number;
+  conflicts: number;
+  reachable: boolean;
+  kotErrors: string[]; // KOTs for delivered entries that did not print
+}
+
+type Listener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<Listener>();
+let replayInFlight: Promise<ReplayResult> | null = null;
+
+const notify = (entries: OutboxEntry[]) => {
+  listeners.forEach((listener) => listener(entries));
+};
+
+export const subscribeOutbox = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const loadOutbox = async (): Promise<OutboxEntry[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+    return raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+  } catch (err) {
+    console.error('Failed to read order outbox:', err);
+    return [];
+  }
+};
+
+const saveOutbox = async (entries: OutboxEntry[]) => {
+  await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  notify(entries);
+};
+
+/**
+ * Queue a payload for later delivery. A newer entry of the same kind for the
+ * same table replaces the older one, since both payloads carry the full item
+ * list; the original `baseUpdatedAt` is kept so conflicts are still detected.
+ */
+export const enqueueOutboxEntry = async (
+  entry: Pick<OutboxEntry, 'kind' | 'tableNumber' | 'payload'> &
+    Partial<Pick<OutboxEntry, 'billId' | 'baseUpdatedAt'>>
+) => {
+  const entries = await loadOutbox();
+  const existingIdx = entries.findIndex(
+    (e) => e.kind === entry.kind && e.tableNumber === entry.tableNumber && e.state === 'pending'
+  );
+  const next: OutboxEntry = {
+    id: `outbox-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    billId: null,
+    baseUpdatedAt: null,
+    ...entry,
+    createdAt: new Date().toISOString(),
+    state: 'pending',
+    attempts: 0,
+  };
+
+  if (existingIdx !== -1) {
+    const previous = entries[existingIdx];
+    entries[existingIdx] = {
+      ...next,
+      id: previous.id,
+      createdAt: previous.createdAt,
+      baseUpdatedAt: previous.baseUpdatedAt ?? next.baseUpdatedAt,
+    };
+  } else {
+    entries.push(next);
+  }
+  await saveOutbox(entries);
+  return entries;
+};
+
+export const removeOutboxEntry = async (id: string) => {
+  const entries = (await loadOutbox()).filter((e) => e.id !== id);
+  await saveOutbox(entries);
+  return entries;
+};
+
+// Mark a 'changed' conflict as pending again and skip the version check on the
+// next replay, i.e. the captain chose to overwrite the server's bill.
+export const forceOutboxEntry = async (id: string) => {
+  const entries = (await loadOutbox()).map((e) =>
+    e.id === id && e.conflict === 'changed'
+      ? { ...e, state: 'pending' as OutboxEntryState, conflict: undefined, force: true, lastError: undefined }
+      : e
+  );
+  await saveOutbox(entries);
+  return entries;
+};
+
+export const getPendingTables = (entries: OutboxEntry[]) =>
+  new Set(entries.map((e) => e.tableNumber));
+
+const fetchActiveBill = async (tableNumber: number): Promise<Bill | null> => {
+  const res = await api.getTableStatus(tableNumber);
+  if (res?.status === 'success' && res.data) {
+    return ACTIVE_BILL_STATUSES.includes(res.data.status) ? res.data : null;
+  }
+  return null;
+};
+
+// Resolves to the bill number the order was created under
+const sendCreate = async (entry: OutboxEntry) => {
+  // Bill numbers are allocated at send time so queued orders never reuse one
+  const { currentBillNumber } = await api.allocateBillNumber();
+  await api.createBill({ ...(entry.payload as CreateBillRequest), billNumber: currentBillNumber });
+  return currentBillNumber;
+};
+
+const sendUpdate = async (entry: OutboxEntry) => {
+  await api.updateBill({ ...(entry.payload as UpdateBillRequest), updatedAt: new Date().toISOString() });
+};
+
+// Returns the conflict found against the table's active bill, or null when the
+// entry can be sent as-is
+const detectConflict = (
+  entry: OutboxEntry,
+  activeBill: Bill | null,
+  plan: FloorPlan
+): { conflict: OutboxConflict; message: string } | null => {
+  const tableName = getTableName(plan, entry.tableNumber);
+  if (entry.kind === 'create') {
+    return activeBill
+      ? { conflict: 'occupied', message: `${tableName} already has an open bill (${activeBill.billNumber}).` }
+      : null;
+  }
+  if (!activeBill || activeBill._id !== entry.billId) {
+    return { conflict: 'closed', message: `The bill for ${tableName} was closed or replaced on the server.` };
+  }
+  if (!entry.force && entry.baseUpdatedAt && activeBill.updatedAt && activeBill.updatedAt !== entry.baseUpdatedAt) {
+    return {
+      conflict: 'changed',
+      message: `The bill for ${tableName} was changed on the server after this update was queued.`,
+    };
+  }
+  return null;
+};
+
+// What the kitchen has not seen of a delivered entry
+interface ReplayKot {
+  tableNumber: number;
+  before: BillItem[];
+  after: BillItem[];
+  billNumber: string | null;
+}
+
+// Printed once the outbox is saved, so a slow printer never holds up the queue.
+// Resolves to the error of every ticket that did not print.
+const printReplayKots = async (kots: ReplayKot[], plan: FloorPlan) => {
+  const errors: string[] = [];
+  for (const kot of kots) {
+    const orderLabel = getTableName(plan, kot.tableNumber);
+    try {
+      await printKot({ before: kot.before, after: kot.after, orderLabel, billNumber: kot.billNumber });
+    } catch (err: any) {
+      console.warn('KOT print failed after replay:', err);
+      errors.push(`${orderLabel}: ${err?.message || 'Unable to reach the kitchen printer.'}`);
+    }
+  }
+  return errors;
+};
+
+const runReplay = async (apiUrl: string): Promise<ReplayResult> => {
+  const entries = await loadOutbox();
+  const result: ReplayResult = { sent: 0, conflicts: 0, reachable: true, kotErrors: [] };
+  if (!entries.some((e) => e.state === 'pending')) return result;
+
+  if (!(await checkServerHealth(apiUrl))) {
+    return { ...result, reachable: false };
+  }
+  const plan = await loadFloorPlan(); // table names for conflicts and KOTs
+
+  const blockedTables = new Set<number>();
+  const sent = new Map<string, string>(); // entry id -> payload JSON that was delivered
+  const changed = new Map<string, Partial<OutboxEntry>>();
+  const kots: ReplayKot[] = [];
+
+  // Entries are replayed strictly in queue order; a conflict or failure for a
+  // table holds back any later entries for that same table.
+  for (const entry of [...entries]) {
+    if (entry.state !== 'pending' || blockedTables.has(entry.tableNumber)) {
+      if (entry.state === 'conflict') blockedTables.add(entry.tableNumber);
+      continue;
+    }
+
+    try {
+      const activeBill = await fetchActiveBill(entry.tableNumber);
+      const found = detectConflict(entry, activeBill, plan);
+      if (found) {
+        changed.set(entry.id, { state: 'conflict', conflict: found.conflict, lastError: found.message });
+        blockedTables.add(entry.tableNumber);
+        result.conflicts += 1;
+        continue;
+      }
+
+      let billNumber: string | null;
+      if (entry.kind === 'create') {
+        billNumber = await sendCreate(entry);
+      } else {
+        await sendUpdate(entry);
+        billNumber = activeBill?.billNumber ?? null;
+      }
+      sent.set(entry.id, JSON.stringify(entry.payload));
+      result.sent += 1;
+      // The active bill is what the kitchen last saw for this table
+      kots.push({
+        tableNumber: entry.tableNumber,
+        before: entry.kind === 'create' ? [] : activeBill?.items ?? [],
+        after: entry.payload.items,
+        billNumber,
+      });
+    } catch (err: any) {
+      blockedTables.add(entry.tableNumber);
+      changed.set(entry.id, { attempts: entry.attempts + 1, lastError: err?.message || 'Unknown error' });
+      if (isNetworkError(err)) {
+        result.reachable = false;
+        break;
+      }
+    }
+  }
+
+  // Merge into the latest stored outbox: captains may have queued (or replaced)
+  // entries while this replay was talking to the server.
+  const latest = await loadOutbox();
+  await saveOutbox(
+    latest
+      .filter((e) => sent.get(e.id) !== JSON.stringify(e.payload))
+      .map((e) => (changed.has(e.id) ? { ...e, ...changed.get(e.id) } : e))
+  );
+  result.kotErrors = await printReplayKots(kots, plan);
+  return result;
+};
+
+/**
+ * Replay queued entries once `/api/health` answers again. Concurrent callers
+ * share the same in-flight replay so nothing is sent twice.
+ */
+export const replayOutbox = (apiUrl: string) => {
+  if (!replayInFlight) {
+    replayInFlight = runReplay(apiUrl).finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+};
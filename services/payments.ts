@@ -0,0 +1,56 @@
+import type { BillPayment, PaymentMethod } from '@/services/api-types';
+
+// Settling a bill with one or more tenders (cash, card, UPI).
+
+export const PAYMENT_METHODS: { id: PaymentMethod; label: string }[] = [
+  { id: 'cash', label: 'Cash' },
+  { id: 'card', label: 'Card' },
+  { id: 'upi', label: 'UPI' },
+];
+
+// Amounts are compared to the paisa
+const EPSILON = 0.005;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface PaymentSummary {
+  paid: number;
+  remaining: number; // still to be covered; negative when over-tendered
+  change: number; // cash to hand back to the guest
+  complete: boolean;
+}
+
+export const summarizePayments = (tenders: BillPayment[], payable: number): PaymentSummary => {
+  const paid = roundMoney(tenders.reduce((sum, t) => sum + (t.amount || 0), 0));
+  const remaining = roundMoney(payable - paid);
+  const change = roundMoney(
+    tenders
+      .filter((t) => t.method === 'cash' && t.received != null)
+      .reduce((sum, t) => sum + Math.max(0, (t.received || 0) - (t.amount || 0)), 0)
+  );
+  const complete =
+    Math.abs(remaining) < EPSILON &&
+    tenders.every((t) => t.amount > 0 && (t.received == null || t.received + EPSILON >= t.amount));
+  return { paid, remaining, change, complete };
+};
+
+/**
+ * Bill fields for a settlement: `paymentMethod` stays a single method for
+ * one tender (what older reports expect) and becomes 'mixed' otherwise.
+ */
+export const toPaymentFields = (tenders: BillPayment[], payable: number) => {
+  const payments = tenders
+    .filter((t) => t.amount > 0)
+    .map((t) => ({
+      method: t.method,
+      amount: roundMoney(t.amount),
+      ...(t.method === 'cash' && t.received != null ? { received: roundMoney(t.received) } : {}),
+      ...(t.reference?.trim() ? { reference: t.reference.trim() } : {}),
+    }));
+  const methods = new Set(payments.map((p) => p.method));
+  return {
+    paymentMethod: methods.size === 1 ? payments[0].method : 'mixed',
+    payments,
+    changeReturned: summarizePayments(payments, payable).change,
+  };
+};
@@ -0,0 +1,48 @@
+import type { Bill, BillItem, PrepStatus, TableStatusSummary } from '@/services/api-types';
+
+// Kitchen progress of bills and lines, as reported by the kitchen display.
+// Kitchens either move the whole bill (status 'preparing' / 'ready') or mark
+// single items; both are folded into one PrepStatus here.
+
+const PREP_ORDER: PrepStatus[] = ['held', 'pending', 'preparing', 'ready', 'served'];
+
+export const PREP_STATUS_LABELS: Record<PrepStatus, string> = {
+  held: 'On hold',
+  pending: 'Sent to kitchen',
+  preparing: 'Preparing',
+  ready: 'Ready to serve',
+  served: 'Served',
+};
+
+export const PREP_STATUS_COLORS: Record<PrepStatus, string> = {
+  held: '#5856D6',
+  pending: '#8E8E93',
+  preparing: '#FF9500',
+  ready: '#34C759',
+  served: '#007AFF',
+};
+
+const isActive = (item: BillItem) => item.status !== 'canceled' && (item.quantity || 0) > 0;
+
+// The least progressed of the items: a line is ready only when all of it is
+export const getLinePrepStatus = (items: BillItem[]): PrepStatus => {
+  const active = items.filter(isActive);
+  if (!active.length) return 'pending';
+  return active
+    .map((item) => item.prepStatus ?? 'pending')
+    .reduce((least, s) => (PREP_ORDER.indexOf(s) < PREP_ORDER.indexOf(least) ? s : least));
+};
+
+// Held courses do not count: the table is ready when everything fired is
+export const getBillPrepStatus = (bill: Pick<Bill, 'status' | 'items'>): PrepStatus => {
+  if (bill.status === 'ready') return 'ready';
+  const active = (bill.items || []).filter((i) => isActive(i) && i.prepStatus !== 'held');
+  const line = getLinePrepStatus(active);
+  // Anything still cooking keeps the table "preparing", even if some lines are out
+  if (line === 'ready' || line === 'served') return line;
+  if (bill.status === 'preparing' || active.some((i) => i.prepStatus && i.prepStatus !== 'pending')) return 'preparing';
+  return 'pending';
+};
+
+export const getSummaryPrepStatus = (summary: TableStatusSummary): PrepStatus =>
+  summary.prepStatus ?? (summary.status === 'preparing' || summary.status === 'ready' ? summary.status : 'pending');
@@ -0,0 +1,74 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import TcpSocket from 'react-native-tcp-socket';
+
+// Raw TCP printing to a LAN thermal printer (the "9100 / RAW" port most
+// Epson-compatible printers listen on). Any TCP listener works as a stand-in
+// while testing, e.g. `nc -l 9100 > receipt.bin` on a laptop.
+
+// The customer bill and kitchen tickets usually go to different printers
+export type PrinterRole = 'bill' | 'kitchen';
+
+const PRINTER_ADDRESS_KEYS: Record<PrinterRole, string> = {
+  bill: 'printer_address',
+  kitchen: 'kitchen_printer_address',
+};
+export const DEFAULT_PRINTER_PORT = 9100;
+const PRINT_TIMEOUT_MS = 10000;
+
+export interface PrinterAddress {
+  host: string;
+  port: number;
+}
+
+// "192.168.1.50" or "192.168.1.50:9100"
+export const parsePrinterAddress = (value: string): PrinterAddress | null => {
+  const match = value.trim().match(/^([a-zA-Z0-9.-]+)(?::(\d{1,5}))?$/);
+  if (!match) return null;
+  const port = match[2] ? parseInt(match[2], 10) : DEFAULT_PRINTER_PORT;
+  if (port < 1 || port > 65535) return null;
+  return { host: match[1], port };
+};
+
+export const loadPrinterAddress = (role: PrinterRole = 'bill') => AsyncStorage.getItem(PRINTER_ADDRESS_KEYS[role]);
+
+// An empty value clears the printer, e.g. when the backend should print KOTs instead
+export const savePrinterAddress = (value: string, role: PrinterRole = 'bill') =>
+  value.trim()
+    ? AsyncStorage.setItem(PRINTER_ADDRESS_KEYS[role], value.trim())
+    : AsyncStorage.removeItem(PRINTER_ADDRESS_KEYS[role]);
+
+/**
+ * Open a connection, write the whole stream and close it. Rejects with a
+ * readable message when the printer cannot be reached or does not accept
+ * the data within the timeout.
+ */
+export const sendToPrinter = ({ host, port }: PrinterAddress, data: Uint8Array) =>
+  new Promise<void>((resolve, reject) => {
+    let settled = false;
+    const finish = (err?: Error) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (err) reject(err);
+      else resolve();
+    };
+
+    let written = false;
+    const socket = TcpSocket.createConnection({ host, port }, () => {
+      socket.write(data, undefined, (err) => {
+        if (err) {
+          finish(new Error(`The printer at ${host}:${port} did not accept the data.`));
+          return;
+        }
+        written = true;
+        // Resolved on 'close', once the printer has everything
+        socket.end();
+      });
+    });
+
+    socket.setTimeout(PRINT_TIMEOUT_MS, () => finish(new Error(`The printer at ${host}:${port} did not respond.`)));
+    socket.on('error', () => finish(new Error(`Unable to reach the printer at ${host}:${port}.`)));
+    socket.on('close', () =>
+      finish(written ? undefined : new Error(`The printer at ${host}:${port} closed the connection.`))
+    );
+  });
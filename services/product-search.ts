@@ -0,0 +1,105 @@
+import type { Product } from '@/services/api-types';
+
+// Order screen search: numeric short codes from the printed menu, then fuzzy
+// name matching across every category. Results carry the matched character
+// ranges so the grid can highlight them.
+
+export type MatchRange = [start: number, end: number]; // end exclusive
+
+export interface ProductMatch {
+  product: Product;
+  score: number;
+  nameRanges: MatchRange[];
+  codeMatched: boolean;
+}
+
+const MAX_RESULTS = 30;
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-_/(),.]/.test(text[index - 1]);
+
+// Collapse sorted, possibly adjacent index ranges
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  sorted.forEach((range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  });
+  return merged;
+};
+
+/**
+ * Best match of one query token in a name, or null. Preference: prefix of a
+ * word, plain substring, initials ("pbm" -> Paneer Butter Masala), then any
+ * in-order subsequence with a penalty for gaps (typos like "chiken").
+ */
+const matchToken = (name: string, token: string): { score: number; ranges: MatchRange[] } | null => {
+  const lower = name.toLowerCase();
+
+  let index = lower.indexOf(token);
+  while (index !== -1) {
+    if (isWordStart(lower, index)) return { score: 100, ranges: [[index, index + token.length]] };
+    index = lower.indexOf(token, index + 1);
+  }
+  const substring = lower.indexOf(token);
+  if (substring !== -1) return { score: 70, ranges: [[substring, substring + token.length]] };
+
+  const wordStarts = [...lower].map((_, i) => i).filter((i) => isWordStart(lower, i) && /\S/.test(lower[i]));
+  if (token.length > 1 && token.length <= wordStarts.length) {
+    const initials = wordStarts.map((i) => lower[i]).join('');
+    const at = initials.indexOf(token);
+    if (at !== -1) {
+      return { score: 60, ranges: wordStarts.slice(at, at + token.length).map((i) => [i, i + 1] as MatchRange) };
+    }
+  }
+
+  const ranges: MatchRange[] = [];
+  let from = 0;
+  let gaps = 0;
+  for (const ch of token) {
+    const found = lower.indexOf(ch, from);
+    if (found === -1) return null;
+    if (ranges.length && found !== from) gaps += found - from;
+    ranges.push([found, found + 1]);
+    from = found + 1;
+  }
+  const score = 40 - Math.min(30, gaps * 3);
+  return score > 10 ? { score, ranges } : null;
+};
+
+const matchProduct = (product: Product, query: string, tokens: string[]): ProductMatch | null => {
+  const code = product.shortCode != null ? String(product.shortCode).toLowerCase() : '';
+  if (code && code === query) {
+    return { product, score: 1000, nameRanges: [], codeMatched: true };
+  }
+  if (code && /^\d+$/.test(query) && code.startsWith(query)) {
+    return { product, score: 500 - (code.length - query.length), nameRanges: [], codeMatched: true };
+  }
+
+  let score = 0;
+  const ranges: MatchRange[] = [];
+  for (const token of tokens) {
+    const match = matchToken(product.name || '', token);
+    if (!match) return null;
+    score += match.score;
+    ranges.push(...match.ranges);
+  }
+  // Shorter names win ties, so "Tea" ranks above "Masala Tea Special" for "tea"
+  return { product, score: score - (product.name || '').length / 100, nameRanges: mergeRanges(ranges), codeMatched: false };
+};
+
+export const searchProducts = (products: Product[], rawQuery: string): ProductMatch[] => {
+  const query = rawQuery.trim().toLowerCase();
+  if (!query) return [];
+  const tokens = query.split(/\s+/);
+
+  return products
+    .map((product) => matchProduct(product, query, tokens))
+    .filter((m): m is ProductMatch => m !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS);
+};
@@ -0,0 +1,158 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { getServerUrl } from '@/services/api-client';
+import type { Bill } from '@/services/api-types';
+import { subscribeSession } from '@/services/session';
+
+// Live bill events pushed by the backend over a WebSocket on the same host as
+// `server_ip`. One shared socket serves every screen; it opens with the first
+// subscriber, closes with the last, and reconnects with backoff in between.
+// Screens poll while it is down (see useBillEvents).
+
+export type BillEventType = 'bill.created' | 'bill.updated' | 'bill.status';
+
+export interface BillEvent {
+  type: BillEventType;
+  bill: Bill;
+}
+
+export type RealtimeStatus = 'connecting' | 'open' | 'closed';
+
+const REALTIME_PATH = '/api/realtime';
+const MIN_RECONNECT_MS = 1000;
+const MAX_RECONNECT_MS = 30000;
+
+type EventListener = (event: BillEvent) => void;
+type StatusListener = (status: RealtimeStatus) => void;
+
+const eventListeners = new Set<EventListener>();
+const statusListeners = new Set<StatusListener>();
+
+let socket: WebSocket | null = null;
+let status: RealtimeStatus = 'closed';
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectDelay = MIN_RECONNECT_MS;
+let unsubscribeSession: (() => void) | null = null;
+
+const setStatus = (next: RealtimeStatus) => {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((listener) => listener(next));
+};
+
+// http://192.168.1.10:5000 -> ws://192.168.1.10:5000/api/realtime
+export const toRealtimeUrl = (serverUrl: string, token: string | null) => {
+  const base = serverUrl.replace(/\/+$/, '').replace(/^http/i, 'ws');
+  const wsBase = /^wss?:\/\//i.test(base) ? base : `ws://${base}`;
+  return `${wsBase}${REALTIME_PATH}${token ? `?token=${encodeURIComponent(token)}` : ''}`;
+};
+
+const parseEvent = (raw: unknown): BillEvent | null => {
+  if (typeof raw !== 'string') return null;
+  try {
+    const msg = JSON.parse(raw);
+    if (
+      (msg?.type === 'bill.created' || msg?.type === 'bill.updated' || msg?.type === 'bill.status') &&
+      msg.bill?._id
+    ) {
+      return { type: msg.type, bill: msg.bill };
+    }
+  } catch {
+    // Heartbeats and anything we do not understand are ignored
+  }
+  return null;
+};
+
+const scheduleReconnect = () => {
+  if (reconnectTimer || eventListeners.size === 0) return;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, reconnectDelay);
+  reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_MS);
+};
+
+const connect = async () => {
+  if (socket || eventListeners.size === 0) return;
+  setStatus('connecting');
+
+  const [serverUrl, token] = await Promise.all([getServerUrl(), AsyncStorage.getItem('token')]);
+  // Everyone may have unsubscribed (or another connect won) while we were reading storage
+  if (socket || eventListeners.size === 0) return;
+  if (!serverUrl) {
+    setStatus('closed');
+    scheduleReconnect();
+    return;
+  }
+
+  const ws = new WebSocket(toRealtimeUrl(serverUrl, token));
+  socket = ws;
+
+  ws.onopen = () => {
+    reconnectDelay = MIN_RECONNECT_MS;
+    setStatus('open');
+  };
+  ws.onmessage = (msg) => {
+    const event = parseEvent(msg.data);
+    if (event) eventListeners.forEach((listener) => listener(event));
+  };
+  ws.onerror = () => {
+    // onclose always follows; reconnection is handled there
+  };
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    setStatus('closed');
+    scheduleReconnect();
+  };
+};
+
+const disconnect = () => {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  reconnectDelay = MIN_RECONNECT_MS;
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  setStatus('closed');
+};
+
+// Drop the socket and dial again right away, e.g. after a new token or server IP
+export const reconnectRealtime = () => {
+  if (eventListeners.size === 0) return;
+  disconnect();
+  connect();
+};
+
+export const getRealtimeStatus = () => status;
+
+export const subscribeRealtimeStatus = (listener: StatusListener) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+export const subscribeBillEvents = (listener: EventListener) => {
+  eventListeners.add(listener);
+  if (eventListeners.size === 1) {
+    // The socket authenticates with the token it was opened with
+    unsubscribeSession = subscribeSession((event) => {
+      if (event === 'restored') reconnectRealtime();
+    });
+    connect();
+  }
+  return () => {
+    eventListeners.delete(listener);
+    if (eventListeners.size === 0) {
+      unsubscribeSession?.();
+      unsubscribeSession = null;
+      disconnect();
+    }
+  };
+};
+
+// Table a pushed bill belongs to; older bills only carry `table`
+export const getEventTableNumber = (bill: Bill) => bill.tableNumber ?? bill.table ?? null;
@@ -0,0 +1,16 @@
+import { api, toApiError } from '@/services/api-client';
+
+// 'up': API and MongoDB are ready; 'not-ready': the server answered but is not
+// usable yet; 'unreachable': no response at all (wrong IP, Wi-Fi down, timeout)
+export type ServerHealth = 'up' | 'not-ready' | 'unreachable';
+
+export const getServerHealth = async (apiUrl: string): Promise<ServerHealth> => {
+  try {
+    const data = await api.health(apiUrl);
+    return data?.status === 'UP' && data?.database?.status === 'Connected' ? 'up' : 'not-ready';
+  } catch (err) {
+    return toApiError(err).isNetworkError ? 'unreachable' : 'not-ready';
+  }
+};
+
+export const checkServerHealth = async (apiUrl: string) => (await getServerHealth(apiUrl)) === 'up';
@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { OrderType, User } from '@/services/api-types';
+import type { CustomerDetails } from '@/services/takeaway-orders';
+
+// Session expiry is broadcast app-wide: the API client reports every 401, the
+// root layout shows a single re-login prompt, and screens holding unsent work
+// (the order screen) stash it as a draft until the captain signs back in.
+
+const DRAFT_KEY = 'order_draft';
+const LAST_EMAIL_KEY = 'last_login_email';
+const CAPTAIN_NAME_KEY = 'captain_name';
+const CAPTAIN_ID_KEY = 'userId';
+
+type SessionEvent = 'expired' | 'restored';
+type Listener = (event: SessionEvent) => void;
+
+const listeners = new Set<Listener>();
+let expired = false;
+
+export const subscribeSession = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const isSessionExpired = () => expired;
+
+// Many requests can fail with 401 at once; only the first one raises the prompt
+export const notifySessionExpired = () => {
+  if (expired) return;
+  expired = true;
+  listeners.forEach((listener) => listener('expired'));
+};
+
+export const notifySessionRestored = () => {
+  expired = false;
+  listeners.forEach((listener) => listener('restored'));
+};
+
+// Captain gave up on re-login and is heading to the login screen; nothing
+// should refetch, but the next 401 after signing in must prompt again.
+export const resetSession = () => {
+  expired = false;
+};
+
+// Store what a successful /api/user/login gives us; the email pre-fills the re-login
+// prompt, the name is printed on kitchen tickets and the id marks the captain's
+// tables and item changes
+export const persistLogin = (token: string, email: string, user: User) =>
+  AsyncStorage.multiSet([
+    ['token', token],
+    [LAST_EMAIL_KEY, email],
+    [CAPTAIN_NAME_KEY, user.name || user.email || email],
+    [CAPTAIN_ID_KEY, user._id],
+  ]);
+
+export const loadLastLoginEmail = () => AsyncStorage.getItem(LAST_EMAIL_KEY);
+
+export const loadCaptainName = () => AsyncStorage.getItem(CAPTAIN_NAME_KEY);
+
+export const loadCaptainId = () => AsyncStorage.getItem(CAPTAIN_ID_KEY);
+
+export interface Captain {
+  id: string;
+  name: string;
+}
+
+// Null until a login has stored the captain's id
+export const loadCaptain = async (): Promise<Captain | null> => {
+  const [id, name] = await Promise.all([loadCaptainId(), loadCaptainName()]);
+  return id ? { id, name: name || '' } : null;
+};
+
+/**
+ * Unsent order lines for one table or takeaway/delivery token, kept while the
+ * captain re-authenticates. `items` is the order screen's own OrderItem shape,
+ * stored as-is.
+ */
+export interface OrderDraft<T = unknown> {
+  tableNumber: number | null;
+  orderType?: OrderType; // absent on dine-in drafts
+  tokenNumber?: number | null;
+  customer?: CustomerDetails; // details of an order that was never sent
+  billId: string | null;
+  items: T[];
+  savedAt: string;
+}
+
+export const saveOrderDraft = async <T>(draft: Omit<OrderDraft<T>, 'savedAt'>) => {
+  await AsyncStorage.setItem(DRAFT_KEY, JSON.stringify({ ...draft, savedAt: new Date().toISOString() }));
+};
+
+export const loadOrderDraft = async <T>(): Promise<OrderDraft<T> | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(DRAFT_KEY);
+    return raw ? (JSON.parse(raw) as OrderDraft<T>) : null;
+  } catch (err) {
+    console.error('Failed to read order draft:', err);
+    return null;
+  }
+};
+
+export const clearOrderDraft = () => AsyncStorage.removeItem(DRAFT_KEY);
@@ -0,0 +1,67 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { BillItem } from '@/services/api-types';
+import { loadPrinterAddress, savePrinterAddress } from '@/services/printer';
+
+// Kitchen stations (kitchen, bar, tandoor...) and which categories each one
+// prepares. The configuration is kept on the device like the printers; the
+// main kitchen always exists, prints on the kitchen printer and takes every
+// category that is not mapped elsewhere.
+
+const STATIONS_KEY = 'kitchen_stations';
+
+export const DEFAULT_STATION = 'Kitchen';
+
+export interface KitchenStation {
+  name: string;
+  printerAddress: string; // empty when the station does not have a printer
+}
+
+export interface StationConfig {
+  stations: KitchenStation[]; // DEFAULT_STATION first
+  categoryStations: Record<string, string>; // category id -> station name
+}
+
+export const EMPTY_STATION_CONFIG: StationConfig = {
+  stations: [{ name: DEFAULT_STATION, printerAddress: '' }],
+  categoryStations: {},
+};
+
+export const loadStationConfig = async (): Promise<StationConfig> => {
+  const kitchenPrinter = (await loadPrinterAddress('kitchen')) || '';
+  let saved: Partial<StationConfig> = {};
+  try {
+    saved = JSON.parse((await AsyncStorage.getItem(STATIONS_KEY)) || '{}') || {};
+  } catch (err) {
+    console.warn('Failed to read kitchen stations:', err);
+  }
+  const others = (Array.isArray(saved.stations) ? saved.stations : []).filter(
+    (s) => s?.name && s.name !== DEFAULT_STATION
+  );
+  return {
+    stations: [{ name: DEFAULT_STATION, printerAddress: kitchenPrinter }, ...others],
+    categoryStations: saved.categoryStations && typeof saved.categoryStations === 'object' ? saved.categoryStations : {},
+  };
+};
+
+// The main kitchen's printer is the kitchen printer, so it is saved there
+export const saveStationConfig = async ({ stations, categoryStations }: StationConfig) => {
+  const kitchen = stations.find((s) => s.name === DEFAULT_STATION);
+  const others = stations.filter((s) => s.name !== DEFAULT_STATION);
+  const names = new Set(others.map((s) => s.name));
+  const mapped = Object.fromEntries(Object.entries(categoryStations).filter(([, name]) => names.has(name)));
+  await savePrinterAddress(kitchen?.printerAddress ?? '', 'kitchen');
+  await AsyncStorage.setItem(STATIONS_KEY, JSON.stringify({ stations: others, categoryStations: mapped }));
+};
+
+export const getCategoryStation = (categoryId: string | undefined, config: StationConfig) => {
+  const name = categoryId ? config.categoryStations[categoryId] : undefined;
+  return name && config.stations.some((s) => s.name === name) ? name : DEFAULT_STATION;
+};
+
+// Lines already sent keep the station they went to, even if the mapping changed since
+export const getItemStation = (item: BillItem, config: StationConfig) => {
+  if (item.station) return item.station;
+  const category = typeof item.productId === 'string' ? undefined : item.productId?.category?._id;
+  return getCategoryStation(category, config);
+};
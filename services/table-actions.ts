@@ -0,0 +1,106 @@
+import { api, ApiError } from '@/services/api-client';
+import type { Bill, TaxSettings } from '@/services/api-types';
+import {
+  computeBillTotals,
+  getBillAdjustments,
+  getBillItemTaxLines,
+  getItemsSubtotal,
+  toAdjustmentFields,
+} from '@/services/bill-totals';
+import { billToUpdateRequest } from '@/services/bill-updates';
+import { getTableName, loadFloorPlan } from '@/services/floor-plan';
+import type { Captain } from '@/services/session';
+import { isAssignmentUnsupported } from '@/services/table-assignments';
+import { ACTIVE_BILL_STATUSES } from '@/services/table-status';
+
+// Moving a running bill to another table, merging two tables' bills and
+// handing a table to another captain. All work on whole bills through
+// /api/bill/update, keeping every item's `updates` history intact.
+
+// For error messages; the floor plan is only fetched when one is needed
+const nameOf = async (tableNumber: number) => getTableName(await loadFloorPlan(), tableNumber);
+
+const fetchActiveBill = async (tableNumber: number): Promise<Bill | null> => {
+  const res = await api.getTableStatus(tableNumber);
+  return res.status === 'success' && res.data && ACTIVE_BILL_STATUSES.includes(res.data.status) ? res.data : null;
+};
+
+/** Reassign the running bill of `fromTable` to `toTable`, which must be free. */
+export const moveTableBill = async (fromTable: number, toTable: number) => {
+  if (fromTable === toTable) throw new ApiError('Pick a different table.');
+  const [bill, targetBill] = await Promise.all([fetchActiveBill(fromTable), fetchActiveBill(toTable)]);
+  if (!bill) throw new ApiError(`${await nameOf(fromTable)} has no open order to move.`);
+  if (targetBill) throw new ApiError(`${await nameOf(toTable)} already has an open order. Use merge instead.`);
+
+  await api.updateBill(billToUpdateRequest(bill, { tableNumber: toTable, table: toTable }));
+  return bill;
+};
+
+// Seats used on a bill: its covers, or more if a line names a higher seat
+const seatsInUse = (bill: Bill) =>
+  Math.max(bill.covers || 0, ...bill.items.map((item) => item.seat || 0));
+
+/**
+ * Fold the running bill of `sourceTable` into the one on `targetTable`. The
+ * source items are appended (ids and `updates` history included) with their
+ * seats numbered on after the target's, the guests are added to the target's
+ * covers, totals are recomputed with the given (or freshly fetched) tax
+ * settings and the source bill is cancelled.
+ */
+export const mergeTableBills = async (sourceTable: number, targetTable: number, taxSettings?: TaxSettings) => {
+  if (sourceTable === targetTable) throw new ApiError('Pick a different table.');
+  const [source, target] = await Promise.all([fetchActiveBill(sourceTable), fetchActiveBill(targetTable)]);
+  if (!source) throw new ApiError(`${await nameOf(sourceTable)} has no open order to merge.`);
+  if (!target) throw new ApiError(`${await nameOf(targetTable)} has no open order. Use move instead.`);
+
+  const seatOffset = seatsInUse(target);
+  const items = [
+    ...target.items,
+    ...source.items.map((item) => (item.seat ? { ...item, seat: item.seat + seatOffset } : item)),
+  ];
+  const covers = (target.covers || 0) + (source.covers || 0);
+  const totalAmount = getItemsSubtotal(items);
+  // The target bill's discount and service charge carry over to the merged bill
+  const adjustments = getBillAdjustments(target);
+  const settings = taxSettings ?? (await api.getTaxSettings());
+  const totals = computeBillTotals(getBillItemTaxLines(items, settings), settings, adjustments);
+
+  await api.updateBill(
+    billToUpdateRequest(target, {
+      items,
+      totalAmount,
+      ...(covers ? { covers } : {}),
+      ...toAdjustmentFields(adjustments, totals),
+      sgst: totals.sgstAmount,
+      cgst: totals.cgstAmount,
+      payableAmount: totals.payableAmount,
+    })
+  );
+  await api.updateBillStatus({ _id: source._id, status: 'cancelled' });
+  return target;
+};
+
+/**
+ * Assign the table to `captain`, or clear its assignment with null. Free
+ * tables can be assigned; a running bill on the table is handed to the new
+ * captain too. Servers without assignments can only hand over a running bill.
+ */
+export const assignTableCaptain = async (tableNumber: number, captain: Captain | null) => {
+  let stored = true;
+  try {
+    await api.assignTable(tableNumber, captain);
+  } catch (err) {
+    if (!isAssignmentUnsupported(err)) throw err;
+    stored = false;
+  }
+  const bill = await fetchActiveBill(tableNumber);
+  if (!stored && !bill) {
+    throw new ApiError(`This server can only hand over tables with an open order, and ${await nameOf(tableNumber)} has none.`);
+  }
+  if (!stored && !captain) throw new ApiError('This server cannot clear a table’s captain.');
+
+  if (bill && captain) {
+    await api.updateBill(billToUpdateRequest(bill, { captainId: captain.id, captainName: captain.name }));
+  }
+  return bill;
+};
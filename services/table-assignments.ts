@@ -0,0 +1,41 @@
+import { api, toApiError } from '@/services/api-client';
+import type { Captain } from '@/services/session';
+
+// Which captain looks after which table. Assignments are stored on the server
+// apart from bills, so a table can be given to a captain before the guests sit
+// down and keeps its captain from one bill to the next. On servers without
+// assignments the captain on a table's running bill is the only owner there is.
+
+// Set once the server answers 404/405, like the bulk table feed
+let assignmentsUnsupported = false;
+
+export const isAssignmentUnsupported = (err: unknown) => {
+  const status = toApiError(err).status;
+  return status === 404 || status === 405;
+};
+
+/** Captain per assigned table. Null on servers without assignments. */
+export const fetchTableAssignments = async (): Promise<Map<number, Captain> | null> => {
+  if (assignmentsUnsupported) return null;
+  try {
+    const assignments = await api.getTableAssignments();
+    return new Map(
+      assignments
+        .filter((a) => a.captainId)
+        .map((a) => [a.tableNumber, { id: a.captainId, name: a.captainName || '' }])
+    );
+  } catch (err) {
+    if (!isAssignmentUnsupported(err)) throw err;
+    assignmentsUnsupported = true;
+    return null;
+  }
+};
+
+// Captains a table can be assigned to, by name
+export const fetchCaptains = async (): Promise<Captain[]> => {
+  const staff = await api.getStaff();
+  return staff
+    .filter((user) => user.employeeType === 'staff')
+    .map((user) => ({ id: user._id, name: user.name || user.email }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
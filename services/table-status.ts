@@ -0,0 +1,94 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { api, toApiError } from '@/services/api-client';
+import type { Bill, TableStatusSummary } from '@/services/api-types';
+import { getBillPrepStatus } from '@/services/prep-status';
+
+// Last known table statuses, so the grid paints occupancy instantly on launch
+// instead of waiting for the network.
+const CACHE_KEY = 'table_status_cache';
+
+export const ACTIVE_BILL_STATUSES = ['pending', 'preparing', 'ready'];
+
+// Set once the server answers 404/405 for the bulk feed; saves a wasted
+// round trip on every refresh for the rest of the app session.
+let bulkUnsupported = false;
+
+export const summarizeBill = (tableNumber: number, bill: Bill): TableStatusSummary => {
+  const activeItems = (bill.items || []).filter((i) => i.status !== 'canceled');
+  return {
+    tableNumber,
+    billId: bill._id,
+    billNumber: bill.billNumber,
+    status: bill.status,
+    prepStatus: getBillPrepStatus(bill),
+    itemCount: activeItems.reduce((sum, i) => sum + (i.quantity || 0), 0),
+    runningTotal: bill.payableAmount ?? bill.totalAmount ?? 0,
+    ...(bill.captainId ? { captainId: bill.captainId, captainName: bill.captainName } : {}),
+    updatedAt: bill.updatedAt,
+  };
+};
+
+// Older servers: one getTableStatus per table, as the grid used to do
+const fetchPerTable = async (tableNumbers: number[]) => {
+  const results = await Promise.all(
+    tableNumbers.map(async (tableNumber) => {
+      try {
+        const res = await api.getTableStatus(tableNumber);
+        return res.status === 'success' && res.data ? summarizeBill(tableNumber, res.data) : null;
+      } catch {
+        // A failed check just shows the table as free
+        return null;
+      }
+    })
+  );
+  return results.filter((r): r is TableStatusSummary => r !== null);
+};
+
+/**
+ * Active bill summaries for the given tables, keyed by table number. Uses the
+ * bulk feed when the server has it and falls back to per-table calls.
+ */
+export const fetchTableStatuses = async (tableNumbers: number[]) => {
+  let summaries: TableStatusSummary[];
+  if (bulkUnsupported) {
+    summaries = await fetchPerTable(tableNumbers);
+  } else {
+    try {
+      summaries = await api.getTableStatuses();
+    } catch (err) {
+      const status = toApiError(err).status;
+      if (status !== 404 && status !== 405) throw err;
+      bulkUnsupported = true;
+      summaries = await fetchPerTable(tableNumbers);
+    }
+  }
+
+  const byTable = new Map<number, TableStatusSummary>();
+  summaries
+    .filter((s) => ACTIVE_BILL_STATUSES.includes(s.status) && tableNumbers.includes(s.tableNumber))
+    .forEach((s) => byTable.set(s.tableNumber, s));
+
+  AsyncStorage.setItem(CACHE_KEY, JSON.stringify([...byTable.values()])).catch((err) =>
+    console.warn('Failed to cache table statuses:', err)
+  );
+  return byTable;
+};
+
+export const loadCachedTableStatuses = async () => {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_KEY);
+    const list: TableStatusSummary[] = raw ? JSON.parse(raw) : [];
+    return new Map(list.map((s) => [s.tableNumber, s]));
+  } catch (err) {
+    console.warn('Failed to read cached table statuses:', err);
+    return new Map<number, TableStatusSummary>();
+  }
+};
+
+// Every table with its active bill, for screens that do not keep the grid around
+export const fetchFloorStatuses = async () => {
+  const { count } = await api.getTableCount();
+  const tables = Array.from({ length: Math.max(0, count) }, (_, i) => i + 1);
+  return { tables, statuses: await fetchTableStatuses(tables) };
+};
@@ -0,0 +1,75 @@
+import { api, toApiError } from '@/services/api-client';
+import type { Bill, OrderType } from '@/services/api-types';
+import { EMPTY_FLOOR_PLAN, getTableName, type FloorPlan } from '@/services/floor-plan';
+import { ACTIVE_BILL_STATUSES } from '@/services/table-status';
+
+// Takeaway and delivery orders: no table, a token number the customer is
+// called by, and the customer's contact details on the bill. Tokens are only
+// what the customer hears; an open order is always looked up by its bill id.
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  'dine-in': 'Dine-in',
+  takeaway: 'Takeaway',
+  delivery: 'Delivery',
+};
+
+export interface CustomerDetails {
+  name: string;
+  phone: string;
+  address: string; // delivery only
+}
+
+export const toOrderType = (value: unknown): OrderType =>
+  value === 'takeaway' || value === 'delivery' ? value : 'dine-in';
+
+export const isTakeawayBill = (bill: Pick<Bill, 'orderType' | 'tokenNumber'>) =>
+  toOrderType(bill.orderType) !== 'dine-in' && bill.tokenNumber != null;
+
+// "Table 4" (or the table's floor plan label), "Takeaway #12"
+export const getOrderLabel = (
+  bill: Pick<Bill, 'orderType' | 'tokenNumber' | 'tableNumber' | 'table'>,
+  plan: FloorPlan = EMPTY_FLOOR_PLAN
+) => {
+  const orderType = toOrderType(bill.orderType);
+  if (orderType !== 'dine-in' && bill.tokenNumber != null) return `${ORDER_TYPE_LABELS[orderType]} #${bill.tokenNumber}`;
+  const table = bill.tableNumber ?? bill.table;
+  return table ? getTableName(plan, table) : null;
+};
+
+// Set once the server answers 404/405, like the bulk table feed
+let openOrdersUnsupported = false;
+
+/**
+ * Open takeaway and delivery orders by token number. Null on servers without
+ * the feed: such servers cannot reopen an order by token, so the app does
+ * not offer takeaway and delivery there.
+ */
+export const fetchOpenOrders = async (): Promise<Bill[] | null> => {
+  if (openOrdersUnsupported) return null;
+  try {
+    const bills = await api.getOpenOrders();
+    return bills
+      .filter((b) => isTakeawayBill(b) && ACTIVE_BILL_STATUSES.includes(b.status))
+      .sort((a, b) => (a.tokenNumber ?? 0) - (b.tokenNumber ?? 0));
+  } catch (err) {
+    const status = toApiError(err).status;
+    if (status !== 404 && status !== 405) throw err;
+    openOrdersUnsupported = true;
+    return null;
+  }
+};
+
+export const fetchOpenOrder = async (billId: string) => (await fetchOpenOrders())?.find((b) => b._id === billId);
+
+/**
+ * Next token for a new takeaway or delivery order. The server hands it out
+ * and advances its daily sequence in one step, so every device draws from one
+ * counter and a token is never given twice; a token drawn for an order that
+ * is abandoned is simply skipped.
+ */
+export const allocateTokenNumber = async () => (await api.allocateTokenNumber()).number;
+
+// Takeaway and delivery orders cannot wait in the offline outbox, which holds
+// one order per table
+export const OFFLINE_TAKEAWAY_MESSAGE =
+  'Takeaway and delivery orders need the server. Reconnect to the restaurant Wi-Fi and try again.';